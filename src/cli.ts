@@ -0,0 +1,354 @@
+#!/usr/bin/env node
+import fs from "fs";
+import os from "os";
+import { join } from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import { CSV } from "./csv";
+import { parser } from "./parser";
+import { createStringifyStream } from "./stream";
+import { compile } from "./lib/expression";
+
+const usage = `Usage: csv-rw <command> [options] [file]
+
+Reads the CSV file, or stdin if it's missing or "-", and writes to stdout.
+
+Commands:
+  head                 Print the first rows
+  count                Print the number of rows
+  select <columns>     Print only some columns, e.g. "name,age"
+  filter <expression>  Print the rows that match an expression, e.g. "age >= 18 and city = Rome"
+  sort <columns>       Print the rows sorted by some columns, e.g. "age:desc,name"
+  convert              Convert between CSV, JSON and NDJSON, or change the delimiter
+  validate             Check the rows against typed headers
+  stats                Print statistics about each column
+
+Options:
+  -n, --rows <n>               The number of rows printed by head, defaults to 10
+  -d, --delimiter <d>          The delimiter of the input, detected by default
+  -o, --output-delimiter <d>   The delimiter of the output, defaults to the input one
+  -H, --headers <headers>      Typed headers, e.g. "n:id,s:name,n:age?"
+      --from <format>          The format of the input for convert: csv, json or ndjson
+      --to <format>            The format of the output for convert: csv, json or ndjson
+  -h, --help                   Print this message`;
+
+const flags: Record<string, string> = {
+  "-n": "rows",
+  "--rows": "rows",
+  "-d": "delimiter",
+  "--delimiter": "delimiter",
+  "-o": "output-delimiter",
+  "--output-delimiter": "output-delimiter",
+  "-H": "headers",
+  "--headers": "headers",
+  "--from": "from",
+  "--to": "to"
+};
+
+/**
+ * An error in the arguments, printed with the usage.
+ */
+class UsageError extends Error {}
+
+interface Args {
+  command: string;
+  operands: string[];
+  options: Record<string, string>;
+}
+
+/**
+ * Function to parse the command line arguments.
+ * @private
+ */
+function parseArgs(argv: string[]): Args {
+  let operands: string[] = [];
+  let options: Record<string, string> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    let arg = argv[i];
+
+    if (arg === "-h" || arg === "--help") {
+      options.help = "true";
+    } else if (flags[arg]) {
+      if (i + 1 >= argv.length)
+        throw new UsageError(`Missing value for ${arg}.`);
+      options[flags[arg]] = argv[++i];
+    } else if (arg.startsWith("-") && arg !== "-") {
+      throw new UsageError(`Unknown option ${arg}.`);
+    } else {
+      operands.push(arg);
+    }
+  }
+
+  return { command: operands.shift() ?? "", operands, options };
+}
+
+/**
+ * Function to get the path of the input, copying stdin to a temporary file if it's read from there.
+ * @private
+ */
+async function input(file: string | undefined, dir: string): Promise<string> {
+  if (file !== undefined && file !== "-") {
+    if (!fs.existsSync(file)) throw new Error(`No such file: ${file}.`);
+    return file;
+  }
+
+  let path = join(dir, "stdin");
+  await pipeline(process.stdin, fs.createWriteStream(path));
+
+  return path;
+}
+
+/**
+ * Function to write chunks to stdout, waiting for it to drain.
+ * @private
+ */
+async function print(...chunks: string[]): Promise<void> {
+  for (let chunk of chunks) {
+    if (!process.stdout.write(chunk)) {
+      await new Promise(res => process.stdout.once("drain", res));
+    }
+  }
+}
+
+/**
+ * Function to write entries to stdout as CSV.
+ * @param headers The headers of the output, typed to write the values like the input.
+ * @private
+ */
+async function printEntries(
+  entries: AsyncIterable<object> | Iterable<object>,
+  headers: string[],
+  csv: CSV<string>,
+  args: Args
+): Promise<void> {
+  let { delimiter, quote } = csv.getDialect();
+
+  await pipeline(
+    Readable.from(entries),
+    createStringifyStream({
+      headers,
+      delimiter: args.options["output-delimiter"] ?? delimiter,
+      quote
+    }),
+    async function* (records: AsyncIterable<string>) {
+      yield* records;
+      yield "\n";
+    },
+    process.stdout
+  );
+}
+
+/**
+ * Function to get the headers of the output for some columns of the input, typed if the input is.
+ * @private
+ */
+function headersOf(csv: CSV<string>, args: Args, names?: string[]): string[] {
+  let typed = args.options.headers?.split(",") ?? csv.getHeaders();
+  let columns = parser.stripHeaders(typed);
+
+  return (names ?? columns).map(name => {
+    let i = columns.indexOf(name);
+    if (i === -1) throw new UsageError(`Unknown column "${name}".`);
+    return typed[i];
+  });
+}
+
+/**
+ * Function to run a command.
+ * @param dir A temporary directory, removed when the command ends.
+ * @private
+ */
+async function run(args: Args, dir: string): Promise<number> {
+  let { command, operands, options } = args;
+
+  if (options.help || command === "") {
+    await print(usage, "\n");
+    return command === "" && !options.help ? 2 : 0;
+  }
+
+  let operand = () => {
+    if (operands.length === 0)
+      throw new UsageError(`Missing argument for ${command}.`);
+    return operands.shift()!;
+  };
+
+  let argument = ["select", "filter", "sort"].includes(command)
+    ? operand()
+    : "";
+  let open = async (path?: string) =>
+    new CSV({
+      path: path ?? (await input(operands[0], dir)),
+      delimiter: options.delimiter ?? "auto",
+      headers: options.headers?.split(","),
+      onError: command === "validate" ? "collect" : "throw"
+    });
+
+  switch (command) {
+    case "head": {
+      let rows = Number(options.rows ?? 10);
+      if (!Number.isInteger(rows) || rows < 0)
+        throw new UsageError(`Invalid number of rows "${options.rows}".`);
+
+      let csv = await open();
+      await printEntries(
+        csv.query().limit(rows),
+        headersOf(csv, args),
+        csv,
+        args
+      );
+      return 0;
+    }
+
+    case "count": {
+      let csv = await open();
+      await print(`${await csv.count()}\n`);
+      return 0;
+    }
+
+    case "select": {
+      let csv = await open();
+      let names = argument.split(",").map(name => name.trim());
+      let headers = headersOf(csv, args, names);
+
+      await printEntries(csv.query().select(...names), headers, csv, args);
+      return 0;
+    }
+
+    case "filter": {
+      let predicate = compile(argument);
+      let csv = await open();
+
+      await printEntries(
+        csv.query().where(predicate),
+        headersOf(csv, args),
+        csv,
+        args
+      );
+      return 0;
+    }
+
+    case "sort": {
+      let csv = await open();
+      let columns = argument.split(",").map(key => {
+        let [name, direction = "asc"] = key.trim().split(":");
+
+        if (direction !== "asc" && direction !== "desc") {
+          throw new UsageError(
+            `Invalid direction "${direction}", use asc or desc.`
+          );
+        }
+
+        headersOf(csv, args, [name]);
+        return [name, direction] as [string, "asc" | "desc"];
+      });
+
+      let output = join(dir, "sorted.csv");
+      await csv.sortBy(columns, { output });
+
+      let sorted = await open(output);
+      await printEntries(sorted.rows(), headersOf(sorted, args), sorted, args);
+      return 0;
+    }
+
+    case "convert": {
+      let from = options.from ?? "csv";
+      let to = options.to ?? "csv";
+
+      for (let format of [from, to]) {
+        if (!["csv", "json", "ndjson"].includes(format)) {
+          throw new UsageError(
+            `Unknown format "${format}", use csv, json or ndjson.`
+          );
+        }
+      }
+
+      let csv =
+        from === "csv"
+          ? await open()
+          : await CSV.fromJson(
+              fs.createReadStream(await input(operands[0], dir)),
+              join(dir, "converted.csv"),
+              {
+                format: from as "json" | "ndjson",
+                headers: options.headers?.split(",")
+              }
+            );
+
+      if (to === "csv") {
+        await printEntries(csv.rows(), headersOf(csv, args), csv, args);
+      } else {
+        await csv.toJson(process.stdout, { format: to as "json" | "ndjson" });
+        if (to === "json") await print("\n");
+      }
+
+      return 0;
+    }
+
+    case "validate": {
+      if (!options.headers)
+        throw new UsageError(
+          "validate needs typed headers, pass them with -H."
+        );
+
+      let csv = await open();
+      let rows = await csv.count();
+      let errors = csv.getErrors();
+
+      for (let error of errors) await print(error.message, "\n");
+      await print(`${rows} valid rows, ${errors.length} errors\n`);
+
+      return errors.length > 0 ? 1 : 0;
+    }
+
+    case "stats": {
+      let csv = await open();
+      let headers = [
+        "column",
+        "type",
+        "count",
+        "distinct",
+        "nulls",
+        "min",
+        "max",
+        "mean"
+      ];
+
+      let { columns } = await csv.profile();
+      let stats = columns.map(column => ({
+        ...column,
+        column: column.name,
+        min: column.min instanceof Date ? column.min.toISOString() : column.min,
+        max: column.max instanceof Date ? column.max.toISOString() : column.max
+      }));
+
+      await printEntries(stats, headers, csv, args);
+      return 0;
+    }
+
+    default:
+      throw new UsageError(`Unknown command "${command}".`);
+  }
+}
+
+async function main() {
+  let dir = await fs.promises.mkdtemp(join(os.tmpdir(), "csv-rw-cli-"));
+
+  try {
+    process.exitCode = await run(parseArgs(process.argv.slice(2)), dir);
+  } catch (err) {
+    let { code, message } = err as NodeJS.ErrnoException;
+
+    // The output was closed early, like by `head`.
+    if (code === "EPIPE") return;
+
+    process.stderr.write(`csv-rw: ${message}\n`);
+    if (err instanceof UsageError) process.stderr.write(`\n${usage}\n`);
+
+    process.exitCode = err instanceof UsageError ? 2 : 1;
+  } finally {
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  }
+}
+
+main();
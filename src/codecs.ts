@@ -0,0 +1,214 @@
+import { Codec, ColumnDefinition, Json, SchemaTypes } from "./types";
+import { Comparable } from "./lib/compare";
+
+/**
+ * Function to describe a value in error messages.
+ * @private
+ */
+function show(v: unknown): string {
+  if (typeof v === "string") return `"${v}"`;
+  if (v instanceof Date) return `Date(${v.getTime()})`;
+  return String(v);
+}
+
+const number: Codec<number> = {
+  parse(raw) {
+    let n = Number(raw);
+    if (raw.trim() === "" || isNaN(n)) {
+      throw new Error(`${show(raw)} is not a number.`);
+    }
+
+    return n;
+  },
+
+  serialize(v) {
+    if (typeof v !== "number" || isNaN(v)) {
+      throw new Error(`expected a number, found ${show(v)}.`);
+    }
+
+    return v.toString();
+  }
+};
+
+const boolean: Codec<boolean> = {
+  parse(raw) {
+    let b = raw.trim().toLowerCase();
+    if (b !== "true" && b !== "false") {
+      throw new Error(`${show(raw)} is not a boolean.`);
+    }
+
+    return b === "true";
+  },
+
+  serialize(v) {
+    if (typeof v !== "boolean") {
+      throw new Error(`expected a boolean, found ${show(v)}.`);
+    }
+
+    return v.toString();
+  }
+};
+
+const string: Codec<string> = {
+  parse(raw) {
+    return raw;
+  },
+
+  serialize(v) {
+    if (typeof v !== "string") {
+      throw new Error(`expected a string, found ${show(v)}.`);
+    }
+
+    return v;
+  }
+};
+
+const date: Codec<Date> = {
+  parse(raw) {
+    let d = new Date(raw.trim());
+    if (isNaN(d.getTime())) throw new Error(`${show(raw)} is not a date.`);
+    return d;
+  },
+
+  serialize(v) {
+    if (!(v instanceof Date) || isNaN(v.getTime())) {
+      throw new Error(`expected a valid date, found ${show(v)}.`);
+    }
+
+    return v.toISOString();
+  }
+};
+
+const bigint: Codec<bigint> = {
+  parse(raw) {
+    if (!/^[+-]?\d+$/.test(raw.trim())) {
+      throw new Error(`${show(raw)} is not an integer.`);
+    }
+
+    return BigInt(raw.trim());
+  },
+
+  serialize(v) {
+    if (typeof v !== "bigint") {
+      throw new Error(`expected a bigint, found ${show(v)}.`);
+    }
+
+    return v.toString();
+  }
+};
+
+const json: Codec<Json> = {
+  parse(raw) {
+    try {
+      return JSON.parse(raw);
+    } catch {
+      throw new Error(`${show(raw)} is not valid JSON.`);
+    }
+  },
+
+  serialize(v) {
+    let s = JSON.stringify(v);
+    if (s === undefined) {
+      throw new Error(`${show(v)} can't be written as JSON.`);
+    }
+
+    return s;
+  }
+};
+
+/**
+ * Function to create a codec that accepts only the given values.
+ * @param values The allowed values.
+ */
+function enumeration<V extends string>(values: V[]): Codec<V> {
+  let check = (v: unknown) => {
+    if (!values.includes(v as V)) {
+      throw new Error(`${show(v)} is not one of ${values.join(", ")}.`);
+    }
+
+    return v as V;
+  };
+
+  return { parse: check, serialize: check };
+}
+
+/**
+ * Function to get a comparable value from numbers, bigints and dates.
+ * @private
+ */
+function comparable(v: unknown): Comparable {
+  return v instanceof Date ? v.getTime() : (v as Comparable);
+}
+
+/**
+ * Function to wrap a codec with the constraints of a column definition,
+ * they are checked after parsing a value and before serializing it.
+ * @param codec The codec of the column.
+ * @param def The definition of the column.
+ */
+function constrain<V>(codec: Codec<V>, def: ColumnDefinition<V>): Codec<V> {
+  let { min, max, pattern, validate } = def;
+
+  let check = (v: V) => {
+    if (def.enum && !def.enum.includes(v)) {
+      throw new Error(`${show(v)} is not one of ${def.enum.join(", ")}.`);
+    }
+
+    if (min !== undefined && comparable(v) < comparable(min)) {
+      throw new Error(`${show(v)} is less than the minimum ${show(min)}.`);
+    }
+
+    if (max !== undefined && comparable(v) > comparable(max)) {
+      throw new Error(`${show(v)} is greater than the maximum ${show(max)}.`);
+    }
+
+    if (pattern && typeof v === "string" && !pattern.test(v)) {
+      throw new Error(`${show(v)} doesn't match the pattern ${pattern}.`);
+    }
+
+    let result = validate?.(v) ?? true;
+
+    if (result !== true) {
+      throw new Error(
+        typeof result === "string" ? result : `${show(v)} is not valid.`
+      );
+    }
+
+    return v;
+  };
+
+  return {
+    parse: raw => check(codec.parse(raw)),
+    serialize: v => {
+      let s = codec.serialize(v);
+      check(v);
+      return s;
+    }
+  };
+}
+
+/**
+ * The codecs of the built-in type prefixes.
+ */
+const codecs = {
+  n: number,
+  b: boolean,
+  s: string,
+  d: date,
+  i: bigint,
+  j: json
+};
+
+/**
+ * The codecs of the types that can be used by name in a schema.
+ */
+const schemaCodecs: { [K in keyof SchemaTypes]: Codec<SchemaTypes[K]> } = {
+  string,
+  number,
+  boolean,
+  date,
+  bigint,
+  json
+};
+
+export { codecs, schemaCodecs, enumeration, constrain };
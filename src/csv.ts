@@ -1,365 +1,2479 @@
 import fs from "fs";
-import { parser } from "./parser";
-import { Entry } from "./types";
-import { readLines, readLinesSync } from "./lib";
+import os from "os";
+import { join } from "path";
+import readline from "readline";
+import { once } from "events";
+import { Field, parser } from "./parser";
+import { HeaderMismatchError, ValidationError } from "./errors";
+import {
+  CodecsOf,
+  Column,
+  Compression,
+  Dialect,
+  Encoding,
+  EntryOf,
+  ErrorPolicy,
+  HeaderMapping,
+  Joined,
+  JoinOn,
+  JoinType,
+  Profile,
+  Quoting,
+  Schema,
+  Stacked,
+  StorageAdapter,
+  StorageStat
+} from "./types";
+import { iterateBatches, iterateLines, writeFileAtomic } from "./lib";
+import { sniff } from "./sniffer";
+import { Query } from "./query";
+import { CompressedStorage, FileStorage, MemoryStorage } from "./storage";
+import {
+  byteLength,
+  byteOrderMark,
+  createDecoder,
+  encode,
+  hasByteOrderMark
+} from "./lib/encoding";
+import { recordReader } from "./lib/records";
+import {
+  iterateOffsets,
+  keyOf,
+  loadIndex,
+  RowIndex,
+  saveIndex
+} from "./lib/offsets";
+import { acquireLock, LockOptions } from "./lib/lock";
+import { comparator, Direction } from "./lib/compare";
+import { hashJoin, mergeJoin } from "./lib/join";
+import { flatten, JsonFormat, parseJson, unflatten } from "./lib/json";
+import { profiler } from "./lib/profile";
+import {
+  compress,
+  compressionOf,
+  compressSync,
+  decompressInput
+} from "./lib/compression";
 
-interface CSVOptions<T extends string> {
+interface CSVOptions<T extends string, C = {}, S extends Schema = {}> {
   /**
    * The path to the CSV file.
+   * If omitted, the CSV is kept in memory, starting from `data`, and the file system is never used.
    */
-  path: string;
+  path?: string;
+
+  /**
+   * The content of a CSV kept in memory, as text or as bytes in the encoding of the CSV.
+   * It can't be passed together with `path`.
+   */
+  data?: string | Buffer;
+
+  /**
+   * Where the file is kept, defaults to the local file system, or to memory if there is no `path`.
+   */
+  storage?: StorageAdapter;
+
+  /**
+   * How the file is compressed, detected from the extension of the path by default: `gzip` for `.gz`, `brotli` for `.br`.
+   * With `data`, bytes are the compressed file.
+   */
+  compression?: Compression;
 
   /**
    * The delimiter to use when parsing the CSV file.
+   * With `auto`, the delimiter and the quote character are detected from the beginning of the file.
+   */
+  delimiter?: string | "auto";
+
+  /**
+   * The character used to quote values containing the delimiter, quotes or line breaks.
+   */
+  quote?: string;
+
+  /**
+   * When values are quoted while writing, defaults to `minimal`.
+   */
+  quoting?: Quoting;
+
+  /**
+   * The encoding of the file, defaults to `utf-8`, or to the detected one when the delimiter is `auto`.
+   */
+  encoding?: Encoding;
+
+  /**
+   * Whether to write a byte order mark when creating or clearing the file.
+   * Defaults to whether the existing file starts with one.
+   */
+  bom?: boolean;
+
+  /**
+   * The headers to use when parsing the CSV file.
+   */
+  headers?: T[];
+
+  /**
+   * Whether the file has a header row, defaults to true,
+   * or to what is sniffed from the file when the delimiter is `auto`.
+   * Without one, the columns are named by the headers or the schema, and no header row is written.
+   * If neither is passed, they are named `column1`, `column2`... after the fields of the first row.
+   */
+  hasHeader?: boolean;
+
+  /**
+   * How the names in the header row are turned into the keys of the entries, like `{ "First Name": "firstName" }`.
+   * The file keeps its names, and the declared headers are the keys.
+   * Repeated names get a suffix with their count, like `name_2`.
+   */
+  mapHeaders?: HeaderMapping;
+
+  /**
+   * If the path already exists, delete it before instantiating.
+   */
+  deletePrevious?: boolean;
+
+  /**
+   * The definitions of the columns, as an alternative to typed headers.
+   * It can declare types, defaults, nullable columns and constraints on the values.
+   */
+  schema?: S;
+
+  /**
+   * Custom codecs to read and write values, by type prefix (e.g. `x` for `x:column`) or by column name.
+   */
+  codecs?: CodecsOf<C>;
+
+  /**
+   * What to do with values that don't match the type of their column, defaults to `throw`.
+   */
+  onError?: ErrorPolicy;
+
+  /**
+   * What to do when the declared headers differ from the header row of an existing file, defaults to `throw`.
+   * - `throw`: throw a `HeaderMismatchError`.
+   * - `migrate`: rewrite the file with the declared headers, keeping the columns with the same name.
+   * - `ignore`: use the declared headers as they are.
+   */
+  onHeaderMismatch?: "throw" | "migrate" | "ignore";
+
+  /**
+   * The path of a sidecar file where the index of the rows used by `get`, `slice` and `getBy` is kept between runs.
+   * If omitted, the index is built in memory the first time it's needed. It's used only with the local file system.
+   */
+  indexPath?: string;
+
+  /**
+   * Whether to hold a lock file (the path with `.lock` appended) while changing the file,
+   * so that other processes using this option wait for each other. Pass an object to set the timeouts.
+   * It's used only with the local file system.
+   */
+  lock?: boolean | LockOptions;
+
+  /**
+   * When the entries kept in memory by `store` are written to the file, besides calling `flush`.
+   */
+  autoFlush?: FlushOptions;
+}
+
+interface FlushOptions {
+  /**
+   * Flush when this many entries are stored.
+   */
+  entries?: number;
+
+  /**
+   * Flush this many milliseconds after an entry is stored.
+   */
+  interval?: number;
+
+  /**
+   * Flush when the stored entries take about this many bytes.
+   */
+  bytes?: number;
+
+  /**
+   * Flush before the process exits, and when it receives `SIGINT` or `SIGTERM`.
+   */
+  onExit?: boolean;
+
+  /**
+   * Called after the stored entries are written, with their number.
+   */
+  onFlush?: (entries: number) => void;
+
+  /**
+   * Called when the stored entries can't be written, they are kept to be written by the next flush.
+   */
+  onError?: (err: unknown, entries: number) => void;
+}
+
+interface RowsOptions {
+  /**
+   * A signal to abort the reading of the file.
+   */
+  signal?: AbortSignal;
+}
+
+interface SortItem<E> {
+  record: string;
+  entry: E | null;
+}
+
+interface SortOptions {
+  /**
+   * The path to write the sorted entries to, instead of rewriting the CSV file.
+   */
+  output?: string;
+
+  /**
+   * The maximum number of entries kept in memory, defaults to 100000.
+   * Larger files are sorted in runs of this size, written to temporary files and then merged.
+   */
+  runSize?: number;
+}
+
+/**
+ * A column to sort by, ascending, or a column and its direction.
+ */
+type SortColumn<E> = keyof E | [keyof E, Direction];
+
+interface JoinOptions<O, J extends JoinType, X> {
+  /**
+   * The column to join on, with the same name in both files, or a pair of columns `[left, right]`.
+   */
+  on: O;
+
+  /**
+   * The type of join, defaults to `inner`.
+   * `left`, `right` and `full` keep the entries without a match on one or both sides, with null values for the other side.
+   */
+  type?: J;
+
+  /**
+   * The suffixes added to the columns with the same name in both files, defaults to `["_left", "_right"]`.
+   */
+  suffixes?: X;
+
+  /**
+   * How to join the files: `hash` keeps the smaller file in memory,
+   * `merge` sorts both files to temporary files and streams them.
+   * Defaults to `hash` if the smaller file is at most `memoryLimit` bytes.
+   */
+  algorithm?: "hash" | "merge";
+
+  /**
+   * The size in bytes of the largest file that is joined in memory, defaults to 64 MiB.
+   */
+  memoryLimit?: number;
+}
+
+interface FromJsonOptions<T extends string, C, S extends Schema>
+  extends Omit<CSVOptions<T, C, S>, "path" | "data" | "deletePrevious"> {
+  /**
+   * The format of the JSON, an array or newline-delimited JSON, detected from its first character by default.
+   */
+  format?: JsonFormat;
+
+  /**
+   * Whether to flatten nested objects and arrays into columns with dot paths, like `address.city`, defaults to true.
+   */
+  flatten?: boolean;
+
+  /**
+   * How the JSON input is compressed, gzip is detected from its first bytes by default.
+   * The `compression` option is the one of the CSV file.
+   */
+  jsonCompression?: Compression;
+
+  /**
+   * The maximum number of records kept in memory while their keys are collected, without headers, defaults to 100000.
+   * Beyond it, the records are written to a temporary file.
+   */
+  runSize?: number;
+}
+
+interface ToJsonOptions {
+  /**
+   * The format of the JSON, an array or newline-delimited JSON, defaults to an array.
+   */
+  format?: JsonFormat;
+
+  /**
+   * Whether to turn the columns with dot paths back into nested objects and arrays, defaults to true.
+   */
+  unflatten?: boolean;
+
+  /**
+   * How the JSON is compressed, detected from the extension of the output path by default: `gzip` for `.gz`, `brotli` for `.br`.
+   */
+  compression?: Compression;
+}
+
+/**
+ * The type of the entries of a CSV instance.
+ */
+type EntryOfCSV<X> = X extends CSV<infer T, infer C, infer S>
+  ? EntryOf<T, C, S>
+  : never;
+
+interface ProfileOptions extends RowsOptions {
+  /**
+   * How to count the distinct values of each column, defaults to `exact`.
+   * `approximate` uses a fixed amount of memory for each column, with an error around 1.6%.
+   */
+  distinct?: "exact" | "approximate";
+
+  /**
+   * The number of sample values to keep for each column, defaults to 5.
+   */
+  samples?: number;
+}
+
+interface UpsertOptions<K> {
+  /**
+   * The column, or columns, that identify a row.
+   */
+  key: K | K[];
+}
+
+class CSV<T extends string, C = {}, const S extends Schema = {}> {
+  private path: string;
+  private storage: StorageAdapter;
+  private ready: Promise<void>;
+  private delimiter: string;
+  private quote: string;
+  private quoting: Quoting;
+  private dialect: Dialect;
+  private headers: T[];
+  private fileHeaders: string[];
+  private mapping: HeaderMapping | null;
+  private columns: Column[];
+  private codecs: CodecsOf<C>;
+  private onError: ErrorPolicy;
+  private errors: ValidationError[];
+  private stored: EntryOf<T, C, S>[];
+  private indexPath: string | null;
+  private index: RowIndex | null;
+  private lock: LockOptions | null;
+  private queue: Promise<unknown>;
+  private autoFlush: FlushOptions;
+  private storedBytes: number;
+  private flushTimer: ReturnType<typeof setTimeout> | null;
+  private flushQueued: boolean;
+  private removeExitListeners: (() => void) | null;
+
+  public constructor(opts: CSVOptions<T, C, S>) {
+    if (opts.path !== undefined && opts.data !== undefined) {
+      throw new Error("Invalid options: pass either a path or data.");
+    }
+
+    if (opts.storage && opts.path === undefined) {
+      throw new Error(
+        "Invalid options: pass the path of the file in the storage."
+      );
+    }
+
+    let compression = opts.compression ?? compressionOf(opts.path ?? "");
+    let data =
+      typeof opts.data === "string"
+        ? encode(opts.data, opts.encoding ?? "utf-8")
+        : opts.data;
+
+    if (typeof opts.data === "string" && compression !== "none") {
+      data = compressSync(data!, compression);
+    }
+
+    let storage =
+      opts.storage ??
+      (opts.path !== undefined
+        ? new FileStorage()
+        : new MemoryStorage(data?.length ? { "": data } : {}));
+
+    this.path = opts.path ?? "";
+    this.storage =
+      compression === "none"
+        ? storage
+        : new CompressedStorage(storage, compression);
+    this.dialect = this.detectDialect(opts, null);
+    this.delimiter = this.dialect.delimiter;
+    this.quote = this.dialect.quote;
+    this.quoting = opts.quoting ?? "minimal";
+    if (opts.headers && opts.schema) {
+      throw new Error("Invalid options: pass either headers or a schema.");
+    }
+
+    let local = storage instanceof FileStorage;
+
+    this.columns = opts.schema
+      ? parser.parseSchema(opts.schema)
+      : parser.parseColumns(opts.headers ?? [], opts.codecs);
+    this.headers = this.columns.map(c => c.name) as T[];
+    this.mapping = opts.mapHeaders ?? null;
+    this.fileHeaders = this.headers.map(key => this.nameOf(key));
+    this.codecs = opts.codecs ?? ({} as CodecsOf<C>);
+    this.onError = opts.onError ?? "throw";
+    this.errors = [];
+    this.stored = [];
+    this.indexPath = local ? opts.indexPath ?? null : null;
+    this.index = null;
+    this.lock =
+      opts.lock && local ? (opts.lock === true ? {} : opts.lock) : null;
+    this.queue = Promise.resolve();
+    this.autoFlush = opts.autoFlush ?? {};
+    this.storedBytes = 0;
+    this.flushTimer = null;
+    this.flushQueued = false;
+    this.removeExitListeners = null;
+
+    if (this.autoFlush.onExit) this.listenExit();
+
+    this.ready = this.setup(opts);
+  }
+
+  /**
+   * Function to create a CSV instance, and wait until its file is set up.
+   * Storages without synchronous methods set up the file in the background,
+   * so `getHeaders` and `getDialect` may not reflect the file right after the constructor.
+   * @example
+   * const csv = await CSV.open({ path: "users.csv", storage: new BucketStorage(bucket) });
+   * csv.getHeaders();
+   */
+  public static async open<
+    T extends string,
+    C = {},
+    const S extends Schema = {}
+  >(opts: CSVOptions<T, C, S>): Promise<CSV<T, C, S>> {
+    let csv = new CSV(opts);
+    await csv.ready;
+
+    return csv;
+  }
+
+  /**
+   * Function to get the dialect of the CSV file from the options,
+   * or by sniffing the beginning of the file when the delimiter is `auto`.
+   * @param sample The beginning of the file, or null if it's created.
+   * @param complete Whether the sample is the whole file.
+   * @private
+   */
+  private detectDialect(
+    opts: CSVOptions<T, C, S>,
+    sample: Buffer | null,
+    complete = false
+  ): Dialect {
+    let auto = opts.delimiter === "auto";
+    let dialect: Dialect = {
+      delimiter: auto ? "," : opts.delimiter ?? ",",
+      quote: opts.quote ?? '"',
+      lineEnding: "\n",
+      encoding: opts.encoding ?? "utf-8",
+      bom: opts.bom ?? false,
+      hasHeader: opts.hasHeader ?? true
+    };
+
+    if (!sample) return dialect;
+
+    if (!auto || sample.length === 0) {
+      dialect.bom = opts.bom ?? hasByteOrderMark(sample, dialect.encoding);
+      return dialect;
+    }
+
+    let sniffed = sniff(sample, { encoding: opts.encoding, complete });
+    return {
+      ...sniffed,
+      quote: opts.quote ?? sniffed.quote,
+      bom: opts.bom ?? sniffed.bom,
+      hasHeader: opts.hasHeader ?? sniffed.hasHeader
+    };
+  }
+
+  /**
+   * Function to encode text in the encoding of the file.
+   * @private
+   */
+  private encode(text: string): Buffer {
+    return encode(text, this.dialect.encoding);
+  }
+
+  /**
+   * Function to get the beginning of the file: the byte order mark, if any, and the header row, if it has one.
+   * @private
+   */
+  private encodeHeaders(): Buffer {
+    let bom = this.dialect.bom
+      ? byteOrderMark(this.dialect.encoding)
+      : Buffer.alloc(0);
+
+    if (!this.dialect.hasHeader) return bom;
+
+    let opts = { delimiter: this.delimiter, quote: this.quote };
+    let names = this.fileHeaders.map(value =>
+      parser.serializeToken({ value, quoted: false }, opts)
+    );
+
+    return Buffer.concat([bom, this.encode(names.join(this.delimiter))]);
+  }
+
+  /**
+   * Function to get the name in the header row of a new column,
+   * the one mapped to its key if the mapping is an object, otherwise the key itself.
+   * @private
+   */
+  private nameOf(key: string): string {
+    const mapping = this.mapping;
+
+    if (!mapping || typeof mapping === "function") return key;
+
+    return Object.keys(mapping).find(name => mapping[name] === key) ?? key;
+  }
+
+  /**
+   * Function to set up the CSV file: the dialect and the headers are read from the file if it exists,
+   * otherwise it's created with the headers.
+   * With a storage that has synchronous methods it's done right away, otherwise in the background.
+   * @returns A promise that resolves when the file is set up.
+   * @private
+   */
+  private setup(opts: CSVOptions<T, C, S>): Promise<void> {
+    let storage = this.storage;
+    let path = this.path;
+    let size = 64 * 1024;
+
+    if (storage.existsSync && storage.readSync && storage.replaceSync) {
+      let exists = !opts.deletePrevious && storage.existsSync(path);
+      let sample = exists ? storage.readSync(path, 0, size) : null;
+
+      this.setDialect(opts, sample, sample !== null && sample.length < size);
+      if (!sample) storage.replaceSync(path, this.encodeHeaders());
+
+      let found =
+        sample && (this.dialect.hasHeader || this.headers.length === 0)
+          ? this.headerRow(sample, sample.length < size)
+          : null;
+
+      // A header row longer than the sample is read again with a larger one.
+      while (found === undefined) {
+        size *= 4;
+        sample = storage.readSync(path, 0, size);
+        found = this.headerRow(sample, sample.length < size);
+      }
+
+      let migrated = this.matchHeaders(found, opts);
+
+      // A failed migration is thrown by the first operation.
+      migrated.catch(() => {});
+      return migrated;
+    }
+
+    let ready = (async () => {
+      let exists = !opts.deletePrevious && (await storage.exists(path));
+      let sample = exists ? await this.head(size) : null;
+
+      this.setDialect(opts, sample, sample !== null && sample.length < size);
+      if (!sample) await storage.replace(path, [this.encodeHeaders()]);
+
+      let found =
+        sample && (this.dialect.hasHeader || this.headers.length === 0)
+          ? this.headerRow(sample, sample.length < size)
+          : null;
+
+      while (found === undefined) {
+        size *= 4;
+        sample = await this.head(size);
+        found = this.headerRow(sample, sample.length < size);
+      }
+
+      await this.matchHeaders(found, opts);
+    })();
+
+    // The failure is thrown by the first operation.
+    ready.catch(() => {});
+    return ready;
+  }
+
+  /**
+   * Function to use the dialect detected from the beginning of the file.
+   * @private
+   */
+  private setDialect(
+    opts: CSVOptions<T, C, S>,
+    sample: Buffer | null,
+    complete: boolean
+  ): void {
+    this.dialect = this.detectDialect(opts, sample, complete);
+    this.delimiter = this.dialect.delimiter;
+    this.quote = this.dialect.quote;
+  }
+
+  /**
+   * Function to read the first bytes of the CSV file.
+   * @private
+   */
+  private async head(size: number): Promise<Buffer> {
+    let chunks: Buffer[] = [];
+
+    for await (let chunk of this.storage.read(this.path, { end: size })) {
+      chunks.push(chunk);
+    }
+
+    return Buffer.concat(chunks);
+  }
+
+  /**
+   * Function to read the names in the header row of the file, or the fields of the first row if it has none.
+   * @param sample The beginning of the file.
+   * @param complete Whether the sample is the whole file.
+   * @returns The names, null if the file is empty,
+   * or undefined if the first row doesn't end in the sample, and a larger one is needed.
+   * @private
+   */
+  private headerRow(
+    sample: Buffer,
+    complete: boolean
+  ): string[] | null | undefined {
+    let reader = recordReader({ delimiter: this.delimiter, quote: this.quote });
+    let text = createDecoder(this.dialect.encoding).decode(sample, {
+      stream: !complete
+    });
+    let records = reader.push(text);
+
+    if (records.length === 0 && !complete) return undefined;
+
+    let line = records[0] ?? reader.end()[0];
+
+    if (!line) return null;
+
+    return parser.parseHeaders(line, {
+      delimiter: this.delimiter,
+      quote: this.quote
+    });
+  }
+
+  /**
+   * Function to check the header row of the file against the declared headers, or to use it if none were declared.
+   * The names in the header row are mapped to keys first, and the keys are compared with the declared headers.
+   * Without a header row and declared headers, the columns are named after the fields of the first row.
+   * @param found The names in the header row, or the fields of the first row if the file has none,
+   * or null if they were not read.
+   * @returns A promise that resolves when the file is migrated to the declared headers, if it must be.
+   * @throws HeaderMismatchError if they differ and `onHeaderMismatch` is `throw`.
+   * @private
+   */
+  private matchHeaders(
+    found: string[] | null,
+    opts: CSVOptions<T, C, S>
+  ): Promise<void> {
+    let expected = this.headers as string[];
+
+    if (!found) return Promise.resolve();
+
+    if (!this.dialect.hasHeader) {
+      this.nameColumns(found.map((_, i) => `column${i + 1}`));
+      return Promise.resolve();
+    }
+
+    let keys = parser.mapHeaders(found, this.mapping ?? undefined);
+
+    if (expected.length === 0) {
+      this.nameColumns(keys, found);
+      return Promise.resolve();
+    }
+
+    let policy = opts.onHeaderMismatch ?? "throw";
+    let same =
+      keys.length === expected.length &&
+      keys.every((key, i) => key === expected[i]);
+
+    if (same) this.fileHeaders = found;
+    if (same || policy === "ignore") return Promise.resolve();
+    if (policy === "throw") {
+      throw new HeaderMismatchError({ path: this.path, expected, found: keys });
+    }
+
+    return this.migrate(found, keys);
+  }
+
+  /**
+   * Function to use columns with the given keys as they are, untyped and optional,
+   * instead of reading type prefixes and suffixes from them like the declared headers.
+   * @param names The names of the columns in the header row, the keys by default.
+   * @private
+   */
+  private nameColumns(keys: string[], names: string[] = keys): void {
+    this.headers = keys as T[];
+    this.fileHeaders = names;
+    this.columns = keys.map(name => ({ name, optional: true }));
+  }
+
+  /**
+   * Function to rewrite the file with the declared headers, moving the fields of each column to its new position.
+   * Columns missing from the declared headers are dropped, and new ones are filled with their default value or null.
+   * @param found The names in the header row of the file.
+   * @param keys The keys of the names in the header row.
+   * @private
+   */
+  private async migrate(found: string[], keys: string[]): Promise<void> {
+    let release = this.lock ? await acquireLock(this.path, this.lock) : null;
+    let positions = this.columns.map(column => keys.indexOf(column.name));
+
+    try {
+      await this.rewriteColumns(
+        this.columns,
+        positions.map((i, j) =>
+          i === -1 ? this.nameOf(this.headers[j]) : found[i]
+        ),
+        positions.map((i, j) =>
+          i !== -1
+            ? i
+            : this.serializeField(
+                this.columns[j],
+                this.columns[j].default === undefined ? null : undefined
+              )
+        )
+      );
+    } finally {
+      await release?.();
+    }
+  }
+
+  /**
+   * Function to get the size of the CSV file, and its modification time.
+   * @private
+   */
+  private stat(): Promise<StorageStat> {
+    return this.storage.stat(this.path);
+  }
+
+  /**
+   * Function to read and decode the bytes of the CSV file between two offsets.
+   * @private
+   */
+  private async readBytes(start: number, end?: number): Promise<string> {
+    let decoder = createDecoder(this.dialect.encoding);
+    let text = "";
+
+    for await (let chunk of this.storage.read(this.path, { start, end })) {
+      text += decoder.decode(chunk, { stream: true });
+    }
+
+    return text + decoder.decode();
+  }
+
+  /**
+   * Function to get the headers of the csv file.
+   */
+  public getHeaders(): T[] {
+    return this.headers;
+  }
+
+  /**
+   * Function to get the dialect of the csv file: delimiter, quote, line ending and encoding.
+   */
+  public getDialect(): Dialect {
+    return { ...this.dialect };
+  }
+
+  /**
+   * Function to get the path of the csv file, an empty string if it's in memory.
+   */
+  public getPath(): string {
+    return this.path;
+  }
+
+  /**
+   * Function to get the validation errors collected by the last operation, when `onError` is `collect`.
+   */
+  public getErrors(): ValidationError[] {
+    return this.errors;
+  }
+
+  /**
+   * Function to handle an error thrown while parsing or validating a row, according to the error policy.
+   * @returns null if the row should be skipped.
+   * @private
+   */
+  private handleError(err: unknown): null {
+    if (!(err instanceof ValidationError) || this.onError === "throw")
+      throw err;
+    if (this.onError === "collect") this.errors.push(err);
+
+    return null;
+  }
+
+  /**
+   * Function to parse a record of the CSV file into an entry, coercing each value to the type of its column.
+   * @param row The index of the entry, used in errors.
+   * @returns The entry, or null if it's invalid and should be skipped.
+   * @private
+   */
+  private parseLine(line: string, row?: number): EntryOf<T, C, S> | null {
+    try {
+      return parser.parseRow(line, {
+        delimiter: this.delimiter,
+        quote: this.quote,
+        columns: this.columns,
+        row
+      }) as EntryOf<T, C, S>;
+    } catch (err) {
+      return this.handleError(err);
+    }
+  }
+
+  /**
+   * Function to serialize an entry into a record of the CSV file, checking it against the columns.
+   * @param row The index of the entry, used in errors.
+   * @returns The record, or null if the entry is invalid and should be skipped.
+   * @private
+   */
+  private serializeLine(entry: EntryOf<T, C, S>, row?: number): string | null {
+    try {
+      return parser
+        .serializeEntry(entry, this.columns, {
+          delimiter: this.delimiter,
+          quote: this.quote,
+          quoting: this.quoting,
+          row
+        })
+        .join(this.delimiter);
+    } catch (err) {
+      return this.handleError(err);
+    }
+  }
+
+  /**
+   * Function to iterate over the entries of the CSV file without loading it in memory.
+   * The file is read only as fast as the entries are consumed, and breaking out of the loop closes it.
+   * @param opts.signal A signal to abort the iteration, which then throws an `AbortError`.
+   * @example
+   * for await (let entry of csv.rows()) {
+   *   console.log(entry);
+   * }
+   */
+  public async *rows(
+    opts: RowsOptions = {}
+  ): AsyncGenerator<EntryOf<T, C, S>, void, undefined> {
+    await this.idle();
+    yield* this.entries(opts);
+  }
+
+  /**
+   * Function to iterate over the entries of the CSV file, without waiting for the queued operations.
+   * @param path The path of another file with the same headers and dialect, like a sorted copy.
+   * @private
+   */
+  private async *entries(
+    opts: RowsOptions = {},
+    path: string = this.path
+  ): AsyncGenerator<EntryOf<T, C, S>, void, undefined> {
+    for await (let batch of this.batches(opts, path)) {
+      yield* batch;
+    }
+  }
+
+  /**
+   * Function to iterate over the entries of the CSV file in batches, one for each chunk read.
+   * @param path The path of another file with the same headers and dialect, like a sorted copy.
+   * @private
+   */
+  private async *batches(
+    opts: RowsOptions = {},
+    path: string = this.path
+  ): AsyncGenerator<EntryOf<T, C, S>[], void, undefined> {
+    // Records are counted from the header row, as if there was one.
+    let i = this.dialect.hasHeader ? 0 : 1;
+
+    this.errors = [];
+
+    for await (let lines of iterateBatches(
+      path === this.path
+        ? this.storage.read(this.path, { signal: opts.signal })
+        : path,
+      {
+        delimiter: this.delimiter,
+        quote: this.quote,
+        encoding: this.dialect.encoding,
+        signal: opts.signal
+      }
+    )) {
+      let batch: EntryOf<T, C, S>[] = [];
+
+      for (let line of lines) {
+        if (i++ === 0 || line === "") continue;
+
+        let entry = this.parseLine(line, i - 2);
+        if (entry) batch.push(entry);
+      }
+
+      if (batch.length > 0) yield batch;
+    }
+  }
+
+  /**
+   * Function to start a lazy query on the entries of the CSV file.
+   * The file is read only when the query is run, in a single pass.
+   * @example
+   * let adults = await csv.query().where(x => x.age >= 18).select("name").toArray();
+   */
+  public query(): Query<EntryOf<T, C, S>> {
+    return new Query(() => this.rows());
+  }
+
+  /**
+   * Function to asynchronously read the CSV file.
+   * @returns A promise that resolves to an array of entries.
+   */
+  public async read(): Promise<EntryOf<T, C, S>[]> {
+    await this.idle();
+    return this.readEntries();
+  }
+
+  /**
+   * Function to read the whole CSV file as text, header row included, like to send a CSV kept in memory.
+   * @returns A promise with the text, without the byte order mark.
+   */
+  public async text(): Promise<string> {
+    await this.idle();
+
+    return this.readBytes(0);
+  }
+
+  /**
+   * Function to read the CSV file, without waiting for the queued operations.
+   * @private
+   */
+  private async readEntries(): Promise<EntryOf<T, C, S>[]> {
+    let entries: EntryOf<T, C, S>[] = [];
+
+    for await (let batch of this.batches()) {
+      for (let entry of batch) entries.push(entry);
+    }
+
+    return entries;
+  }
+
+  /**
+   * Function to run an operation that changes the file after the ones already queued,
+   * holding the lock file if enabled, so that operations never overlap.
+   * @private
+   */
+  private exclusive<R>(op: () => Promise<R>): Promise<R> {
+    let run = async () => {
+      await this.ready;
+
+      let release = this.lock ? await acquireLock(this.path, this.lock) : null;
+
+      try {
+        return await op();
+      } finally {
+        await release?.();
+      }
+    };
+
+    let result = this.queue.then(run, run);
+    this.queue = result.catch(() => {});
+
+    return result;
+  }
+
+  /**
+   * Function to wait for the operations queued so far, so that reads see their changes.
+   * @private
+   */
+  private async idle(): Promise<void> {
+    let queue = this.queue;
+
+    await this.ready;
+    await queue;
+  }
+
+  /**
+   * Function to asynchronously write to the CSV file.
+   * @param entries The entries to write to the CSV file.
+   * @returns A promise that resolves when the write is complete.
+   */
+  public async write(
+    entries: EntryOf<T, C, S>[] | EntryOf<T, C, S>
+  ): Promise<void> {
+    if (!Array.isArray(entries)) entries = [entries];
+    return this.exclusive(() => this.append(entries as EntryOf<T, C, S>[]));
+  }
+
+  /**
+   * Function to append entries to the CSV file.
+   * @private
+   */
+  private async append(entries: EntryOf<T, C, S>[]): Promise<void> {
+    this.errors = [];
+
+    let lines: string[] = [];
+
+    entries.forEach((entry, i) => {
+      let line = this.serializeLine(entry, i);
+      if (line !== null) lines.push(line);
+    });
+
+    let index = this.index && (await this.isFresh(this.index));
+    let chunks = lines.map(line => this.encode(this.dialect.lineEnding + line));
+
+    // The first row of a file without a header row doesn't follow a line break.
+    let first =
+      !this.dialect.hasHeader &&
+      lines.length > 0 &&
+      (await this.stat()).size === this.encodeHeaders().length;
+
+    if (first) chunks[0] = this.encode(lines[0]);
+
+    await this.storage.append(this.path, chunks);
+
+    if (index && !first) await this.appendToIndex(lines);
+    else this.index = null;
+  }
+
+  /**
+   * Function to store entries in memory.
+   * @param entries The entries to store in memory.
+   */
+  public store(entries: EntryOf<T, C, S>[] | EntryOf<T, C, S>): void {
+    if (!Array.isArray(entries)) entries = [entries];
+    this.stored.push(...entries);
+
+    let { entries: count, interval, bytes } = this.autoFlush;
+
+    if (bytes) this.storedBytes += this.sizeOf(entries);
+
+    if (
+      (count && this.stored.length >= count) ||
+      (bytes && this.storedBytes >= bytes)
+    ) {
+      this.flushInBackground();
+    } else if (interval && !this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flushInBackground(), interval);
+    }
+  }
+
+  /**
+   * Function to estimate the size in bytes of entries once written.
+   * @private
+   */
+  private sizeOf(entries: EntryOf<T, C, S>[]): number {
+    let size = 0;
+
+    for (let entry of entries) {
+      for (let value of Object.values(entry as object)) {
+        size += Buffer.byteLength(String(value)) + 1;
+      }
+    }
+
+    return size;
+  }
+
+  /**
+   * Function to queue a flush started by a policy, its failures are reported to `onError`.
+   * @private
+   */
+  private flushInBackground(): void {
+    if (this.flushQueued) return;
+
+    this.flushQueued = true;
+    this.flush().catch(() => {});
+  }
+
+  /**
+   * Function to flush the stored entries before the process exits.
+   * On a signal, the process is then killed with the same signal, as it would have been.
+   * @private
+   */
+  private listenExit(): void {
+    let onBeforeExit = () => {
+      this.close().catch(() => {});
+    };
+
+    let onSignal = (signal: NodeJS.Signals) => {
+      this.close()
+        .catch(() => {})
+        .finally(() => process.kill(process.pid, signal));
+    };
+
+    process.on("beforeExit", onBeforeExit);
+    process.on("SIGINT", onSignal);
+    process.on("SIGTERM", onSignal);
+
+    this.removeExitListeners = () => {
+      process.off("beforeExit", onBeforeExit);
+      process.off("SIGINT", onSignal);
+      process.off("SIGTERM", onSignal);
+    };
+  }
+
+  /**
+   * Function to flush the stored entries to the CSV file.
+   * If it fails, the entries are kept to be written by the next flush.
+   */
+  public async flush() {
+    return this.exclusive(async () => {
+      let entries = this.stored;
+
+      this.stored = [];
+      this.storedBytes = 0;
+      this.flushQueued = false;
+
+      if (this.flushTimer) clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+
+      if (entries.length === 0) return;
+
+      try {
+        await this.append(entries);
+      } catch (err) {
+        this.stored = entries.concat(this.stored);
+        this.storedBytes = this.sizeOf(this.stored);
+        this.autoFlush.onError?.(err, entries.length);
+        throw err;
+      }
+
+      this.autoFlush.onFlush?.(entries.length);
+    });
+  }
+
+  /**
+   * Function to flush the stored entries and stop the automatic flushes.
+   * The instance can still be used afterwards, but entries stored are only written by `flush`.
+   */
+  public async close(): Promise<void> {
+    let { onFlush, onError } = this.autoFlush;
+
+    this.removeExitListeners?.();
+    this.removeExitListeners = null;
+    this.autoFlush = { onFlush, onError };
+
+    await this.flush();
+  }
+
+  /**
+   * Function to clear the CSV file.
+   */
+  public async clear(): Promise<void> {
+    return this.exclusive(async () => {
+      let index = this.index;
+
+      await this.rewrite([]);
+
+      if (index) {
+        let stat = await this.stat();
+        let columns = [...index.keys.keys()];
+
+        this.index = {
+          size: stat.size,
+          mtimeMs: stat.mtimeMs,
+          rows: [],
+          keys: new Map(columns.map(column => [column, new Map()]))
+        };
+
+        await this.saveIndex();
+      }
+    });
+  }
+
+  /**
+   * Function to check whether an index matches the current size and modification time of the file.
+   * @private
+   */
+  private async isFresh(index: RowIndex): Promise<boolean> {
+    let stat = await this.stat();
+    return index.size === stat.size && index.mtimeMs === stat.mtimeMs;
+  }
+
+  /**
+   * Function to save the index to the sidecar file, if there is one.
+   * @private
+   */
+  private async saveIndex(): Promise<void> {
+    if (this.indexPath && this.index) {
+      await saveIndex(this.indexPath, this.index);
+    }
+  }
+
+  /**
+   * Function to get the index of the rows, loading it from the sidecar file,
+   * or building it if it's missing or the file was changed.
+   * @private
+   */
+  private async getIndex(): Promise<RowIndex> {
+    if (this.index && (await this.isFresh(this.index))) return this.index;
+
+    if (this.indexPath) {
+      let loaded = await loadIndex(this.indexPath);
+      if (loaded && (await this.isFresh(loaded))) return (this.index = loaded);
+    }
+
+    let stat = await this.stat();
+    let index: RowIndex = {
+      size: stat.size,
+      mtimeMs: stat.mtimeMs,
+      rows: [],
+      keys: new Map()
+    };
+
+    let i = this.dialect.hasHeader ? 0 : 1;
+
+    for await (let { record, start, end } of iterateOffsets(
+      this.storage.read(this.path),
+      {
+        delimiter: this.delimiter,
+        quote: this.quote,
+        encoding: this.dialect.encoding
+      }
+    )) {
+      if (i++ === 0 || record === "") continue;
+      index.rows.push([start, end]);
+    }
+
+    this.index = index;
+    await this.saveIndex();
+
+    return index;
+  }
+
+  /**
+   * Function to add the value of a column in a record to the rows by key of that column.
+   * Values that can't be parsed are not indexed.
+   * @private
+   */
+  private indexKey(
+    keys: Map<string, number[]>,
+    column: string,
+    record: string,
+    row: number
+  ): void {
+    let position = this.headers.indexOf(column as T);
+
+    try {
+      let fields = parser.tokenize(record, {
+        delimiter: this.delimiter,
+        quote: this.quote
+      });
+
+      let key = keyOf(
+        parser.parseColumnValue(fields[position], this.columns[position], {
+          row
+        })
+      );
+
+      let rows = keys.get(key);
+
+      if (rows) rows.push(row);
+      else keys.set(key, [row]);
+    } catch {}
+  }
+
+  /**
+   * Function to get the rows by value of a column, indexing the column if it wasn't already.
+   * @private
+   */
+  private async getKeys(column: string): Promise<Map<string, number[]>> {
+    if (!this.headers.includes(column as T)) {
+      throw new Error(`Unknown column "${column}".`);
+    }
+
+    let index = await this.getIndex();
+    let keys = index.keys.get(column);
+
+    if (keys) return keys;
+
+    keys = new Map();
+
+    let i = this.dialect.hasHeader ? 0 : 1;
+    let row = 0;
+
+    for await (let { record } of iterateOffsets(this.storage.read(this.path), {
+      delimiter: this.delimiter,
+      quote: this.quote,
+      encoding: this.dialect.encoding
+    })) {
+      if (i++ === 0 || record === "") continue;
+      this.indexKey(keys, column, record, row++);
+    }
+
+    index.keys.set(column, keys);
+    await this.saveIndex();
+
+    return keys;
+  }
+
+  /**
+   * Function to add the records appended to the file to the index.
+   * If the file doesn't end where expected, it was changed by someone else, and the index is dropped.
+   * @private
+   */
+  private async appendToIndex(records: string[]): Promise<void> {
+    let index = this.index!;
+    let encoding = this.dialect.encoding;
+    let offset = index.size;
+
+    for (let record of records) {
+      let start = offset + byteLength(this.dialect.lineEnding, encoding);
+      let row = index.rows.length;
+
+      offset = start + byteLength(record, encoding);
+      index.rows.push([start, offset]);
+
+      for (let [column, keys] of index.keys) {
+        this.indexKey(keys, column, record, row);
+      }
+    }
+
+    let stat = await this.stat();
+
+    if (stat.size !== offset) {
+      this.index = null;
+      return;
+    }
+
+    index.size = stat.size;
+    index.mtimeMs = stat.mtimeMs;
+    await this.saveIndex();
+  }
+
+  /**
+   * Function to get an entry by its position, reading only its row from the file.
+   * The position of a row is the same as in the array returned by `read`, when all the rows are valid.
+   * @param row The position of the row, starting from 0.
+   * @returns A promise with the entry, or undefined if there is no such row or it's invalid.
+   */
+  public async get(row: number): Promise<EntryOf<T, C, S> | undefined> {
+    await this.idle();
+
+    let index = await this.getIndex();
+    let offsets = index.rows[row];
+
+    if (!offsets) return;
+
+    this.errors = [];
+
+    let record = await this.readBytes(offsets[0], offsets[1]);
+
+    return this.parseLine(record, row) ?? undefined;
+  }
+
+  /**
+   * Function to get the entries between two positions, reading only their rows from the file.
+   * @param start The position of the first row, negative positions count from the end.
+   * @param end The position after the last row, negative positions count from the end.
+   * @returns A promise with the entries.
+   * @see Array.prototype.slice
+   */
+  public async slice(
+    start: number = 0,
+    end?: number
+  ): Promise<EntryOf<T, C, S>[]> {
+    await this.idle();
+
+    let index = await this.getIndex();
+    let rows = index.rows.slice(start, end);
+
+    if (rows.length === 0) return [];
+
+    let first = index.rows.indexOf(rows[0]);
+    let text = await this.readBytes(rows[0][0], rows[rows.length - 1][1]);
+
+    let reader = recordReader({ delimiter: this.delimiter, quote: this.quote });
+    let records = [...reader.push(text), ...reader.end()].filter(r => r !== "");
+    let entries: EntryOf<T, C, S>[] = [];
+
+    this.errors = [];
+
+    records.forEach((record, i) => {
+      let entry = this.parseLine(record, first + i);
+      if (entry) entries.push(entry);
+    });
+
+    return entries;
+  }
+
+  /**
+   * Function to get the first entry with a value in a column, without reading the whole file.
+   * The values of the column are indexed the first time it's used, and kept up to date by `write`, `delete` and `clear`.
+   * @param column The name of the column, typically a key like an id.
+   * @param value The value to look for.
+   * @returns A promise with the entry, or undefined if not found.
+   */
+  public async getBy<K extends keyof EntryOf<T, C, S>>(
+    column: K,
+    value: EntryOf<T, C, S>[K]
+  ): Promise<EntryOf<T, C, S> | undefined> {
+    await this.idle();
+
+    let keys = await this.getKeys(column as string);
+    let rows = keys.get(keyOf(value));
+
+    return rows ? this.get(rows[0]) : undefined;
+  }
+
+  /**
+   * Function to find an entry in the CSV file.
+   * @param fn find calls predicate once for each element of the array, in ascending order, until it finds one where predicate returns true. If such an element is found, find immediately returns that element value. Otherwise, find returns undefined.
+   * @returns A promise with the found entry or undefined if not found.
+   * @see Array.prototype.find
+   */
+  public async find(
+    fn: (x: EntryOf<T, C, S>, i: number, obj: EntryOf<T, C, S>[]) => boolean
+  ): Promise<EntryOf<T, C, S> | undefined> {
+    let entries = await this.read();
+    return entries.find(fn);
+  }
+
+  /**
+   * Function to filter entries in the CSV file based on a predicate.
+   * @param fn  A function that accepts up to three arguments. The filter method calls the predicate function one time for each element in the array.
+   * @returns A promise with an array of the found entries.
+   * @see Array.prototype.filter
+   */
+  public async filter(
+    fn: (x: EntryOf<T, C, S>, i: number, obj: EntryOf<T, C, S>[]) => boolean
+  ) {
+    let entries = await this.read();
+    return entries.filter(fn);
+  }
+
+  /**
+   * Function to sort the entries in the csv file based on a predicate.
+   * @param fn Function used to determine the order of the elements. It is expected to return a negative value if the first argument is less than the second argument, zero if they're equal, and a positive value otherwise. If omitted, the elements are sorted in ascending, ASCII character order.
+   * @param write A flag that determines whether to rewrite the CSV file with the sorted entries.
+   * @returns A promise with an array of the sorted entries.
+   * @see Array.prototype.sort
+   * @see sortBy to sort files that don't fit in memory
+   */
+  public async sort(
+    fn: (a: EntryOf<T, C, S>, b: EntryOf<T, C, S>) => number,
+    write?: boolean
+  ) {
+    if (!write) return (await this.read()).sort(fn);
+
+    return this.exclusive(async () => {
+      let entries = (await this.readEntries()).sort(fn);
+      let records = entries.map((entry, i) => this.serializeLine(entry, i));
+
+      await this.rewrite(records.filter((r): r is string => r !== null));
+      return entries;
+    });
+  }
+
+  /**
+   * Function to sort the CSV file by one or more columns, without loading it in memory.
+   * The entries are sorted in runs that are written to temporary files, then merged into the sorted file.
+   * Values are compared by type, null values are last, and entries with the same values keep their order.
+   * The file is rewritten atomically, unless the sorted entries are written to `opts.output`.
+   * @param by The column, or the columns in order of priority, each optionally with a direction.
+   * @param opts.output The path to write the sorted entries to.
+   * @param opts.runSize The maximum number of entries kept in memory.
+   * @returns A promise with the number of sorted entries.
+   * @example
+   * await csv.sortBy([["age", "desc"], "name"]);
+   */
+  public async sortBy(
+    by: keyof EntryOf<T, C, S> | SortColumn<EntryOf<T, C, S>>[],
+    opts: SortOptions = {}
+  ): Promise<number> {
+    const runSize = opts.runSize ?? 100000;
+
+    let columns = Array.isArray(by) ? by : [by];
+    let compareEntries = comparator<EntryOf<T, C, S>>(
+      columns.map(column =>
+        typeof column === "object"
+          ? { by: column[0], direction: column[1] }
+          : { by: column, direction: "asc" }
+      )
+    );
+
+    // Invalid entries, kept by the skip and collect policies, go last.
+    let order = (
+      a: SortItem<EntryOf<T, C, S>>,
+      b: SortItem<EntryOf<T, C, S>>
+    ) =>
+      a.entry && b.entry
+        ? compareEntries(a.entry, b.entry)
+        : Number(!a.entry) - Number(!b.entry);
+
+    return this.exclusive(async () => {
+      // The temporary directory is only created once a run is written.
+      let dir: string | undefined;
+
+      try {
+        let runs: string[] = [];
+        let items: SortItem<EntryOf<T, C, S>>[] = [];
+        let count = 0;
+
+        let spill = async () => {
+          dir ??= await fs.promises.mkdtemp(join(os.tmpdir(), "csv-rw-sort-"));
+
+          let run = join(dir, `${runs.length}.run`);
+          let lines = items
+            .sort(order)
+            .map(({ record, entry }) => JSON.stringify([record, !!entry]));
+
+          await fs.promises.writeFile(run, lines.join("\n"));
+          runs.push(run);
+          items = [];
+        };
+
+        this.errors = [];
+
+        for await (let record of this.mapRecords(record => record)) {
+          if (items.length >= runSize) await spill();
+          items.push({ record, entry: this.parseLine(record, count++) });
+        }
+
+        if (runs.length === 0) {
+          await this.rewrite(
+            items.sort(order).map(item => item.record),
+            opts.output
+          );
+        } else {
+          if (items.length > 0) await spill();
+          await this.rewrite(this.mergeRuns(runs, order), opts.output);
+        }
+
+        return count;
+      } finally {
+        if (dir) await fs.promises.rm(dir, { recursive: true, force: true });
+      }
+    });
+  }
+
+  /**
+   * Function to merge sorted runs of records, always taking the smallest of their first records.
+   * The records of earlier runs come first when equal, so that the sort is stable.
+   * @private
+   */
+  private async *mergeRuns(
+    runs: string[],
+    order: (
+      a: SortItem<EntryOf<T, C, S>>,
+      b: SortItem<EntryOf<T, C, S>>
+    ) => number
+  ): AsyncGenerator<string, void, undefined> {
+    let streams = runs.map(run => fs.createReadStream(run));
+    let lines = streams.map(input =>
+      readline
+        .createInterface({ input, crlfDelay: Infinity })
+        [Symbol.asyncIterator]()
+    );
+
+    let next = async (i: number) => {
+      let line = await lines[i].next();
+      if (line.done) return null;
+
+      let [record, valid]: [string, boolean] = JSON.parse(line.value);
+      return { record, entry: valid ? this.parseLine(record) : null };
+    };
+
+    try {
+      let heads = await Promise.all(lines.map((_, i) => next(i)));
+
+      while (true) {
+        let min = -1;
+
+        heads.forEach((head, i) => {
+          if (head && (min === -1 || order(head, heads[min]!) < 0)) min = i;
+        });
+
+        if (min === -1) return;
+
+        yield heads[min]!.record;
+        heads[min] = await next(min);
+      }
+    } finally {
+      streams.forEach(stream => stream.destroy());
+    }
+  }
+
+  /**
+   * Function to map the entries in the CSV file based on a predicate.
+   * @see Array.prototype.map
+   * @param fn A function that accepts up to three arguments. The map method calls the callbackfn function one time for each element in the array.
+   * @returns A promise with an array of the mapped entries.
    */
-  delimiter?: string;
+  public async map<U>(
+    fn: (x: EntryOf<T, C, S>, i: number, obj: EntryOf<T, C, S>[]) => U
+  ): Promise<U[]> {
+    let entries = await this.read();
+    return entries.map(fn);
+  }
 
   /**
-   * The headers to use when parsing the CSV file.
+   * Streaming version of `find`, it stops reading the file as soon as an entry is found.
+   * @param fn A function called for each entry until it returns true.
+   * @param opts.signal A signal to abort the search.
+   * @returns A promise with the found entry or undefined if not found.
    */
-  headers?: T[];
+  public async findStream(
+    fn: (x: EntryOf<T, C, S>, i: number) => boolean,
+    opts: RowsOptions = {}
+  ): Promise<EntryOf<T, C, S> | undefined> {
+    let i = 0;
+
+    for await (let entry of this.rows(opts)) {
+      if (fn(entry, i++)) return entry;
+    }
+  }
 
   /**
-   * If the path already exists, delete it before instantiating.
+   * Streaming version of `filter`, the entries are read from the file as they are consumed.
+   * @param fn A function called for each entry, the entry is yielded if it returns true.
+   * @param opts.signal A signal to abort the iteration.
    */
-  deletePrevious?: boolean;
-}
+  public async *filterStream(
+    fn: (x: EntryOf<T, C, S>, i: number) => boolean,
+    opts: RowsOptions = {}
+  ): AsyncGenerator<EntryOf<T, C, S>, void, undefined> {
+    let i = 0;
 
-class CSV<T extends string> {
-  private path: string;
-  private delimiter: string;
-  private headers: T[];
-  private stored: Entry<T>[];
+    for await (let entry of this.rows(opts)) {
+      if (fn(entry, i++)) yield entry;
+    }
+  }
 
-  public constructor(opts: CSVOptions<T>) {
-    this.path = opts.path;
-    this.delimiter = opts.delimiter ?? ",";
-    this.headers = opts.headers ? this.stripHeaders(opts.headers) : [];
-    this.stored = [];
+  /**
+   * Streaming version of `map`, the entries are read from the file as they are consumed.
+   * @param fn A function called for each entry, its result is yielded.
+   * @param opts.signal A signal to abort the iteration.
+   */
+  public async *mapStream<U>(
+    fn: (x: EntryOf<T, C, S>, i: number) => U,
+    opts: RowsOptions = {}
+  ): AsyncGenerator<U, void, undefined> {
+    let i = 0;
 
-    this.init(opts.deletePrevious ?? false);
+    for await (let entry of this.rows(opts)) {
+      yield fn(entry, i++);
+    }
   }
 
   /**
-   * Function to strip the headers of any prefixes or suffixes used for typing.
-   * @param headers The array of headers to use when parsing the CSV file.
-   * @private
+   * Function to count the entries in the CSV file, without loading it in memory.
+   * @param fn If passed, only the entries for which it returns true are counted.
+   * @param opts.signal A signal to abort the count.
+   * @returns A promise with the number of entries.
    */
-  private stripHeaders(headers: T[]): T[] {
-    if (!headers || headers.length === 0) return [];
+  public async count(
+    fn?: (x: EntryOf<T, C, S>, i: number) => boolean,
+    opts: RowsOptions = {}
+  ): Promise<number> {
+    let i = 0;
+    let count = 0;
 
-    let stripped = headers.map(h =>
-      h.replace(/^(n|b|s):|\?$/g, "").trim()
-    ) as T[];
+    for await (let entry of this.rows(opts)) {
+      if (!fn || fn(entry, i)) count++;
+      i++;
+    }
 
-    for (let h of stripped) {
-      let match = h.match(/[^0-9a-z_\/-]/i);
+    return count;
+  }
 
-      if (match) {
-        throw new Error(
-          `Invalid header: "${h}". Header must be alphanumeric. Found invalid charater "${match[0]}" The only non-alphanumeric characters allowed are [-, _, /].`
-        );
+  /**
+   * Function to compute statistics about each column of the CSV file, reading it once.
+   * The values are read as they are written, ignoring the types of the headers,
+   * and the suggested typed headers can be passed as the `headers` option.
+   * @param opts.distinct How to count the distinct values, `exact` or `approximate`.
+   * @param opts.samples The number of sample values for each column.
+   * @param opts.signal A signal to abort the reading of the file.
+   * @returns A promise with the statistics about each column.
+   * @example
+   * let { headers } = await csv.profile();
+   * // -> ["n:id", "s:name", "n:age?"]
+   */
+  public async profile(opts: ProfileOptions = {}): Promise<Profile> {
+    await this.idle();
+
+    let i = this.dialect.hasHeader ? 0 : 1;
+    let profile = profiler(
+      this.columns.map(c => c.name),
+      {
+        approximate: opts.distinct === "approximate",
+        samples: opts.samples ?? 5
+      }
+    );
+
+    for await (let line of iterateLines(
+      this.storage.read(this.path, { signal: opts.signal }),
+      {
+        delimiter: this.delimiter,
+        quote: this.quote,
+        encoding: this.dialect.encoding,
+        signal: opts.signal
       }
+    )) {
+      if (i++ === 0 || line === "") continue;
+
+      profile.push(
+        parser.tokenize(line, { delimiter: this.delimiter, quote: this.quote })
+      );
     }
 
-    return stripped;
+    return profile.result();
   }
 
   /**
-   * Function to initialize the CSV file.
-   * It will create the file if it doesn't exist, and write the headers to it.
+   * Function to replace the rows of the CSV file.
+   * The file is written atomically, so it's never left half written: if anything fails, the original is kept.
+   * @param records The records of the rows, already serialized.
+   * @param path The path to write to instead, with the same headers and dialect.
    * @private
    */
-  private init(deletePrevious: boolean): void {
-    let headers = this.getHeaders();
-    if (!fs.existsSync(this.path)) {
-      fs.writeFileSync(this.path, headers.join(this.delimiter));
-    } else {
-      if (deletePrevious) {
-        fs.unlinkSync(this.path);
-        fs.writeFileSync(this.path, headers.join(this.delimiter));
-      }
+  private async rewrite(
+    records: AsyncIterable<string> | Iterable<string>,
+    path: string = this.path
+  ): Promise<void> {
+    let csv = this;
 
-      if (this.getHeaders().length === 0) {
-        readLinesSync(
-          this.path,
-          line => {
-            this.headers = line.split(this.delimiter).map(h => h.trim()) as T[];
-          },
-          { limit: 1 }
-        );
+    async function* chunks() {
+      let separator = csv.dialect.hasHeader ? csv.dialect.lineEnding : "";
+
+      yield csv.encodeHeaders();
+
+      for await (let record of records) {
+        yield csv.encode(separator + record);
+        separator = csv.dialect.lineEnding;
       }
     }
+
+    if (path !== this.path) {
+      let compression = compressionOf(path);
+
+      return writeFileAtomic(
+        path,
+        compression === "none" ? chunks() : compress(chunks(), compression)
+      );
+    }
+
+    await this.storage.replace(path, chunks());
+    this.index = null;
   }
 
   /**
-   * Function to get the headers of the csv file.
+   * Function to iterate over the records of the CSV file, replacing each of them with the result of a function.
+   * @param fn A function that returns the new record, or null to drop it.
+   * @private
    */
-  public getHeaders(): T[] {
-    return this.headers;
+  private async *mapRecords(
+    fn: (record: string, row: number) => string | null
+  ): AsyncGenerator<string, void, undefined> {
+    let i = this.dialect.hasHeader ? 0 : 1;
+
+    for await (let line of iterateLines(this.storage.read(this.path), {
+      delimiter: this.delimiter,
+      quote: this.quote,
+      encoding: this.dialect.encoding
+    })) {
+      if (i++ === 0 || line === "") continue;
+
+      let record = fn(line, i - 2);
+      if (record !== null) yield record;
+    }
+  }
+
+  /**
+   * Function to serialize the value of a column that is the same in every row.
+   * @param value The value, or undefined for the default value of the column.
+   * @throws ValidationError if the value doesn't match the type of the column.
+   * @private
+   */
+  private serializeField(column: Column, value: unknown): string {
+    return parser.serializeEntry(
+      value === undefined ? {} : { [column.name]: value },
+      [column],
+      { delimiter: this.delimiter, quote: this.quote, quoting: this.quoting }
+    )[0];
   }
 
   /**
-   * Function to get the path of the csv file.
+   * Function to rewrite the file with new columns, copying the fields of each record without parsing them.
+   * @param columns The new columns.
+   * @param names The names of the new columns in the header row.
+   * @param sources For each new column, the position of its field in the records, or the field to write in every record.
+   * @private
    */
-  public getPath(): string {
-    return this.path;
+  private async rewriteColumns(
+    columns: Column[],
+    names: string[],
+    sources: (number | string)[]
+  ): Promise<void> {
+    let headers = this.headers;
+    let fileHeaders = this.fileHeaders;
+    let previous = this.columns;
+    let opts = { delimiter: this.delimiter, quote: this.quote };
+
+    let copy = (field: Field | undefined) =>
+      field ? parser.serializeToken(field, opts) : "";
+
+    this.columns = columns;
+    this.headers = columns.map(c => c.name) as T[];
+    this.fileHeaders = names;
+
+    try {
+      await this.rewrite(
+        this.mapRecords(record => {
+          let fields = parser.tokenize(record, opts);
+
+          return sources
+            .map(source =>
+              typeof source === "number" ? copy(fields[source]) : source
+            )
+            .join(this.delimiter);
+        })
+      );
+    } catch (err) {
+      this.headers = headers;
+      this.fileHeaders = fileHeaders;
+      this.columns = previous;
+      throw err;
+    }
   }
 
   /**
-   * Function to asynchronously read the CSV file.
-   * @returns A promise that resolves to an array of entries.
+   * Function to get the position of a column.
+   * @throws Error if there is no such column.
+   * @private
    */
-  public async read(): Promise<Entry<T>[]> {
-    let entries: Entry<T>[] = [];
+  private position(column: string): number {
+    let i = this.headers.indexOf(column as T);
+    if (i === -1) throw new Error(`Unknown column "${column}".`);
 
-    return new Promise(async (res, rej) => {
-      await readLines(
-        this.getPath(),
-        (line, i) => {
-          if (i > 0) {
-            let row = parser.parseRow(line, {
-              delimiter: this.delimiter,
-              headers: this.getHeaders()
-            });
+    return i;
+  }
 
-            entries.push(row as Entry<T>);
-          }
-        },
-        {
-          onFinish: err => {
-            if (err) rej(err);
-            else res(entries);
-          }
-        }
+  /**
+   * Function to add a column at the end of the rows, rewriting the file atomically.
+   * The entries stored by `store` are written first.
+   * @param header The header of the column, with its type prefix and optional suffix, e.g. `n:score?`.
+   * @param value The value of the column in the existing rows, defaults to null.
+   * @throws ValidationError if the value doesn't match the type of the column.
+   * @example
+   * await csv.addColumn("b:active", true);
+   */
+  public async addColumn(header: string, value: unknown = null): Promise<void> {
+    await this.flush();
+
+    return this.exclusive(async () => {
+      let [column] = parser.parseColumns([header], this.codecs);
+
+      if (this.headers.includes(column.name as T)) {
+        throw new Error(`Column "${column.name}" already exists.`);
+      }
+
+      await this.rewriteColumns(
+        [...this.columns, column],
+        [...this.fileHeaders, this.nameOf(column.name)],
+        [...this.columns.map((_, i) => i), this.serializeField(column, value)]
       );
     });
   }
 
   /**
-   * Function to asynchronously write to the CSV file.
-   * @param entries The entries to write to the CSV file.
-   * @returns A promise that resolves when the write is complete.
+   * Function to rename a column, rewriting the file atomically.
+   * The entries stored by `store` are written first.
+   * @param from The current name of the column.
+   * @param to The new name of the column.
+   * @example
+   * await csv.renameColumn("mail", "email");
    */
-  public async write(entries: Entry<T>[] | Entry<T>): Promise<void> {
-    if (!Array.isArray(entries)) entries = [entries];
-    let writer = fs.createWriteStream(this.path, { flags: "a" });
-    let arr = entries as Entry<T>[];
+  public async renameColumn(
+    from: keyof EntryOf<T, C, S>,
+    to: string
+  ): Promise<void> {
+    await this.flush();
 
-    return new Promise((res, rej) => {
-      let l = arr.length;
+    return this.exclusive(async () => {
+      let position = this.position(from as string);
 
-      for (let i = 0; i < l; i++) {
-        let entry = arr[i];
-        let values = parser
-          .getRowValuesFromHeaders(this.getHeaders(), entry, {
-            delimiter: this.delimiter
-          })
-          .map(v => v ?? "null");
-
-        writer.write("\n" + values.join(this.delimiter));
+      // The name is taken as it is, the column keeps its type.
+      if (to.trim() === "") {
+        throw new Error(`Invalid column name: "${to}".`);
       }
 
-      writer.close();
+      if (to !== from && this.headers.includes(to as T)) {
+        throw new Error(`Column "${to}" already exists.`);
+      }
 
-      writer.on("close", () => res());
-      writer.on("error", err => rej(err));
+      await this.rewriteColumns(
+        this.columns.map((c, i) => (i === position ? { ...c, name: to } : c)),
+        this.fileHeaders.map((name, i) =>
+          i === position ? this.nameOf(to) : name
+        ),
+        this.columns.map((_, i) => i)
+      );
     });
   }
 
   /**
-   * Function to store entries in memory.
-   * @param entries The entries to store in memory.
+   * Function to remove a column from the rows, rewriting the file atomically.
+   * The entries stored by `store` are written first.
+   * @param column The name of the column.
    */
-  public store(entries: Entry<T>[] | Entry<T>): void {
-    if (!Array.isArray(entries)) entries = [entries];
-    this.stored.push(...entries);
+  public async dropColumn(column: keyof EntryOf<T, C, S>): Promise<void> {
+    await this.flush();
+
+    return this.exclusive(async () => {
+      let position = this.position(column as string);
+
+      if (this.columns.length === 1) {
+        throw new Error(`Column "${String(column)}" is the only column.`);
+      }
+
+      let kept = this.columns.map((_, i) => i).filter(i => i !== position);
+
+      await this.rewriteColumns(
+        kept.map(i => this.columns[i]),
+        kept.map(i => this.fileHeaders[i]),
+        kept
+      );
+    });
   }
 
   /**
-   * Function to flush the stored entries to the CSV file.
+   * Function to change the order of the columns, rewriting the file atomically.
+   * The entries stored by `store` are written first.
+   * @param columns All the columns, in the new order.
+   * @example
+   * await csv.reorderColumns(["name", "id", "age"]);
    */
-  public async flush() {
-    await this.write(this.stored);
-    this.stored = [];
+  public async reorderColumns(
+    columns: (keyof EntryOf<T, C, S>)[]
+  ): Promise<void> {
+    await this.flush();
+
+    return this.exclusive(async () => {
+      let positions = columns.map(column => this.position(column as string));
+
+      if (
+        positions.length !== this.columns.length ||
+        new Set(positions).size !== positions.length
+      ) {
+        throw new Error(
+          `Invalid order: pass each of the columns ${this.headers.join(
+            ", "
+          )} once.`
+        );
+      }
+
+      await this.rewriteColumns(
+        positions.map(i => this.columns[i]),
+        positions.map(i => this.fileHeaders[i]),
+        positions
+      );
+    });
   }
 
   /**
-   * Function to clear the CSV file.
+   * Function to patch the entries that match a predicate, up to a limit.
+   * @returns A generator of the new records, and a function to get the number of updated entries.
+   * @private
    */
-  public async clear(): Promise<void> {
-    return new Promise((res, rej) => {
-      fs.writeFile(this.path, this.getHeaders().join(this.delimiter), err => {
-        if (err) rej(err);
-        else res();
-      });
+  private patchRecords(
+    fn: (x: EntryOf<T, C, S>, i: number) => boolean,
+    patch:
+      | Partial<EntryOf<T, C, S>>
+      | ((x: EntryOf<T, C, S>) => Partial<EntryOf<T, C, S>>),
+    limit: number
+  ) {
+    let updated = 0;
+
+    this.errors = [];
+
+    let records = this.mapRecords((record, row) => {
+      if (updated >= limit) return record;
+
+      let entry = this.parseLine(record, row);
+      if (!entry || !fn(entry, row)) return record;
+
+      let changes = typeof patch === "function" ? patch(entry) : patch;
+      let line = this.serializeLine({ ...entry, ...changes }, row);
+      if (line === null) return record;
+
+      updated++;
+      return line;
     });
+
+    return { records, updated: () => updated };
   }
 
   /**
-   * Function to find an entry in the CSV file.
-   * @param fn find calls predicate once for each element of the array, in ascending order, until it finds one where predicate returns true. If such an element is found, find immediately returns that element value. Otherwise, find returns undefined.
-   * @returns A promise with the found entry or undefined if not found.
-   * @see Array.prototype.find
+   * Function to update the first entry that matches a predicate.
+   * The file is rewritten atomically, it's either fully updated or left as it was.
+   * @param fn A function called for each entry until it returns true.
+   * @param patch The values to change, or a function that returns them from the entry.
+   * @returns A promise with the number of updated entries, 0 or 1.
+   * @example
+   * await csv.update(x => x.id === 3, { name: "Jane" });
    */
-  public async find(
-    fn: (x: Entry<T>, i: number, obj: Entry<T>[]) => boolean
-  ): Promise<Entry<T> | undefined> {
-    let entries = await this.read();
-    return entries.find(fn);
+  public async update(
+    fn: (x: EntryOf<T, C, S>, i: number) => boolean,
+    patch:
+      | Partial<EntryOf<T, C, S>>
+      | ((x: EntryOf<T, C, S>) => Partial<EntryOf<T, C, S>>)
+  ): Promise<number> {
+    return this.exclusive(async () => {
+      let { records, updated } = this.patchRecords(fn, patch, 1);
+
+      await this.rewrite(records);
+      return updated();
+    });
   }
 
   /**
-   * Function to filter entries in the CSV file based on a predicate.
-   * @param fn  A function that accepts up to three arguments. The filter method calls the predicate function one time for each element in the array.
-   * @returns A promise with an array of the found entries.
-   * @see Array.prototype.filter
+   * Function to update all the entries that match a predicate.
+   * The file is rewritten atomically, it's either fully updated or left as it was.
+   * @param fn A function called for each entry, that returns true if it should be updated.
+   * @param patch The values to change, or a function that returns them from the entry.
+   * @returns A promise with the number of updated entries.
+   * @example
+   * await csv.updateAll(x => x.age >= 18, x => ({ adult: true }));
    */
-  public async filter(
-    fn: (x: Entry<T>, i: number, obj: Entry<T>[]) => boolean
-  ) {
-    let entries = await this.read();
-    return entries.filter(fn);
+  public async updateAll(
+    fn: (x: EntryOf<T, C, S>, i: number) => boolean,
+    patch:
+      | Partial<EntryOf<T, C, S>>
+      | ((x: EntryOf<T, C, S>) => Partial<EntryOf<T, C, S>>)
+  ): Promise<number> {
+    return this.exclusive(async () => {
+      let { records, updated } = this.patchRecords(fn, patch, Infinity);
+
+      await this.rewrite(records);
+      return updated();
+    });
   }
 
   /**
-   * Function to sort the entries in the csv file based on a predicate.
-   * @param fn Function used to determine the order of the elements. It is expected to return a negative value if the first argument is less than the second argument, zero if they're equal, and a positive value otherwise. If omitted, the elements are sorted in ascending, ASCII character order.
-   * @param write A flag that determines whether to rewrite the CSV file with the sorted entries.
-   * @returns A promise with an array of the sorted entries.
-   * @see Array.prototype.sort
+   * Function to replace the entries with the same key as an entry, or to add it if there are none.
+   * The file is rewritten atomically, it's either fully updated or left as it was.
+   * @param entry The entry to write.
+   * @param opts.key The column, or columns, that identify an entry.
+   * @returns A promise with the number of updated or added entries.
+   * @example
+   * await csv.upsert({ id: 3, name: "Jane" }, { key: "id" });
    */
-  public async sort(fn: (a: Entry<T>, b: Entry<T>) => number, write?: boolean) {
-    let entries = await this.read();
-    entries.sort(fn);
+  public async upsert<K extends keyof EntryOf<T, C, S>>(
+    entry: EntryOf<T, C, S>,
+    opts: UpsertOptions<K>
+  ): Promise<number> {
+    let keys = Array.isArray(opts.key) ? opts.key : [opts.key];
+    let matches = (x: EntryOf<T, C, S>) =>
+      keys.every(key => keyOf(x[key]) === keyOf(entry[key]));
 
-    if (write) await this.write(entries);
-    return entries;
+    return this.exclusive(async () => {
+      let { records, updated } = this.patchRecords(matches, entry, Infinity);
+      let added = 0;
+      let insert = (row: number) => this.serializeLine(entry, row);
+
+      async function* withEntry() {
+        let rows = 0;
+
+        for await (let record of records) {
+          yield record;
+          rows++;
+        }
+
+        let line = updated() === 0 ? insert(rows) : null;
+
+        if (line !== null) {
+          added++;
+          yield line;
+        }
+      }
+
+      await this.rewrite(withEntry());
+      return updated() + added;
+    });
   }
 
   /**
-   * Function to map the entries in the CSV file based on a predicate.
-   * @see Array.prototype.map
-   * @param fn A function that accepts up to three arguments. The map method calls the callbackfn function one time for each element in the array.
-   * @returns A promise with an array of the mapped entries.
+   * Function to rewrite the CSV file without the entries at some positions.
+   * Positions are counted like in the array returned by `read`, and rows that can't be read are kept.
+   * @private
    */
-  public async map<U>(
-    fn: (x: Entry<T>, i: number, obj: Entry<T>[]) => U
-  ): Promise<U[]> {
-    let entries = await this.read();
-    return entries.map(fn);
+  private async dropEntries(positions: Set<number>): Promise<void> {
+    let position = 0;
+
+    this.errors = [];
+
+    await this.rewrite(
+      this.mapRecords((record, row) => {
+        if (!this.parseLine(record, row)) return record;
+        return positions.has(position++) ? null : record;
+      })
+    );
   }
 
   /**
    * Function do delete an entry from the CSV file.
+   * The file is rewritten atomically, it's either fully updated or left as it was.
    * @param indexOrFn The index of the entry to delete or a function that returns true if the entry should be deleted.
    */
   public async delete(
-    indexOrFn: ((x: Entry<T>, i: number, obj: Entry<T>[]) => boolean) | number
+    indexOrFn:
+      | ((x: EntryOf<T, C, S>, i: number, obj: EntryOf<T, C, S>[]) => boolean)
+      | number
   ) {
-    let entries = await this.read();
-    let index = indexOrFn as number;
-
-    if (typeof indexOrFn === "function") {
-      index = entries.findIndex(indexOrFn);
-    }
+    return this.exclusive(async () => {
+      let entries = await this.readEntries();
+      let index = indexOrFn as number;
 
-    if (index === -1) return;
+      if (typeof indexOrFn === "function") {
+        index = entries.findIndex(indexOrFn);
+      }
 
-    entries.splice(index, 1);
+      if (index < 0 || index >= entries.length) return;
 
-    await this.clear();
-    await this.write(entries);
+      await this.dropEntries(new Set([index]));
+    });
   }
 
+  /**
+   * Function to delete entries from the CSV file.
+   * The file is rewritten atomically, it's either fully updated or left as it was.
+   * @param indexesOrFn The indexes of the entries to delete or a function that returns true if an entry should be deleted. If omitted, all the entries are deleted.
+   */
   public async deleteAll(
     indexesOrFn?:
-      | ((x: Entry<T>, i: number, obj: Entry<T>[]) => boolean)
+      | ((x: EntryOf<T, C, S>, i: number, obj: EntryOf<T, C, S>[]) => boolean)
       | number[]
   ) {
-    let entries = await this.read();
-    let indexes = indexesOrFn as number[];
+    return this.exclusive(async () => {
+      let entries = await this.readEntries();
+      let indexes = indexesOrFn as number[];
 
-    if (typeof indexesOrFn === "function") {
-      indexes = entries.map((e, i) => (indexesOrFn as Function)(e, i, entries));
-    }
+      if (indexesOrFn === undefined) {
+        indexes = entries.map((_, i) => i);
+      } else if (typeof indexesOrFn === "function") {
+        indexes = entries.flatMap((e, i) =>
+          indexesOrFn(e, i, entries) ? [i] : []
+        );
+      }
 
-    if (indexes.length === 0) return;
+      if (indexes.length === 0) return;
 
-    let l = indexes.length;
-    let deleted = 0;
+      await this.dropEntries(new Set(indexes));
+    });
+  }
 
-    for (let i = 0; i < l; i++) {
-      let index = indexes[i] - deleted;
-      entries.splice(index, 1);
-      deleted++;
-    }
+  /**
+   * Function to join the entries of two CSV files with the same value in a column.
+   * The columns of both files are combined, and those with the same name in both get a suffix.
+   * When the smaller file fits in memory, it's kept in a map by key while the other is streamed;
+   * otherwise both are sorted by key to temporary files and merged, so that neither is loaded in memory.
+   * The order of the entries is not guaranteed, null keys never match.
+   * @param left The left file.
+   * @param right The right file.
+   * @returns A lazy query on the joined entries.
+   * @example
+   * let orders = CSV.join(customers, orders, { on: ["id", "customerId"], type: "left" });
+   * for await (let order of orders) console.log(order.name, order.total);
+   */
+  public static join<
+    TL extends string,
+    CL,
+    SL extends Schema,
+    TR extends string,
+    CR,
+    SR extends Schema,
+    const O extends JoinOn<EntryOf<TL, CL, SL>, EntryOf<TR, CR, SR>>,
+    J extends JoinType = "inner",
+    const X extends readonly [string, string] = readonly ["_left", "_right"]
+  >(
+    left: CSV<TL, CL, SL>,
+    right: CSV<TR, CR, SR>,
+    opts: JoinOptions<O, J, X>
+  ): Query<Joined<EntryOf<TL, CL, SL>, EntryOf<TR, CR, SR>, O, J, X>> {
+    const memoryLimit = opts.memoryLimit ?? 64 * 1024 * 1024;
 
-    await this.clear();
-    await this.write(entries);
+    let [leftColumn, rightColumn] = (
+      typeof opts.on === "object" ? opts.on : [opts.on, opts.on]
+    ) as [keyof EntryOf<TL, CL, SL>, keyof EntryOf<TR, CR, SR>];
+    let shared = typeof opts.on === "object" ? null : (opts.on as string);
+    let [leftSuffix, rightSuffix] = opts.suffixes ?? ["_left", "_right"];
+
+    let leftNames = left.headers.filter(h => h !== shared);
+    let rightNames = right.headers.filter(h => h !== shared);
+    let rename = (names: string[], others: string[], suffix: string) =>
+      names.map(name => [name, others.includes(name) ? name + suffix : name]);
+
+    let columns = [
+      ...rename(leftNames, rightNames, leftSuffix).map(c => [...c, "left"]),
+      ...rename(rightNames, leftNames, rightSuffix).map(c => [...c, "right"])
+    ];
+
+    let combine = (
+      l: EntryOf<TL, CL, SL> | null,
+      r: EntryOf<TR, CR, SR> | null
+    ) => {
+      let entries = { left: l, right: r } as Record<
+        string,
+        Record<string, unknown> | null
+      >;
+      let entry: Record<string, unknown> = {};
+
+      if (shared !== null) {
+        entry[shared] = (entries.left ?? entries.right)![shared];
+      }
+
+      for (let [name, alias, side] of columns) {
+        let x = entries[side];
+        entry[alias] = x ? x[name] : null;
+      }
+
+      return entry as Joined<EntryOf<TL, CL, SL>, EntryOf<TR, CR, SR>, O, J, X>;
+    };
+
+    let sides = {
+      leftKey: (x: EntryOf<TL, CL, SL>) => x[leftColumn],
+      rightKey: (x: EntryOf<TR, CR, SR>) => x[rightColumn],
+      type: opts.type ?? ("inner" as const),
+      combine
+    };
+
+    return new Query(async function* () {
+      let [leftSize, rightSize] = await Promise.all(
+        [left, right].map(csv => csv.stat().then(stat => stat.size))
+      );
+
+      let algorithm =
+        opts.algorithm ??
+        (Math.min(leftSize, rightSize) <= memoryLimit ? "hash" : "merge");
+
+      if (algorithm === "hash") {
+        yield* hashJoin(
+          { ...sides, left: left.rows(), right: right.rows() },
+          leftSize < rightSize ? "left" : "right"
+        );
+        return;
+      }
+
+      let dir = await fs.promises.mkdtemp(join(os.tmpdir(), "csv-rw-join-"));
+
+      try {
+        let sorted = [join(dir, "left.csv"), join(dir, "right.csv")];
+
+        await left.sortBy(leftColumn, { output: sorted[0] });
+        await right.sortBy(rightColumn, { output: sorted[1] });
+
+        yield* mergeJoin({
+          ...sides,
+          left: left.entries({}, sorted[0]),
+          right: right.entries({}, sorted[1])
+        });
+      } finally {
+        await fs.promises.rm(dir, { recursive: true, force: true });
+      }
+    });
   }
 
   /**
-   * Function that returns a new CSV object from a JSON string / file.
-   * @param pathOrJson Path to the JSON file or the JSON string.
-   * @param output Path to the CSV file to write to.
+   * Function to stack the entries of CSV files, one file after the other.
+   * The entries have the columns of all the files, in the order they first appear,
+   * with null values for the columns their file doesn't have.
+   * @param sources The files to stack.
+   * @returns A lazy query on the stacked entries.
+   * @example
+   * let all = await CSV.concat(january, february, march).toArray();
    */
-  public static async fromJson<T extends string>(json: string, output: string) {
-    let data = JSON.parse(json);
-    let headers = Object.keys(data[0]);
+  public static concat<const A extends readonly CSV<string, unknown, Schema>[]>(
+    ...sources: A
+  ): Query<Stacked<EntryOfCSV<A[number]>>> {
+    let columns = [...new Set(sources.flatMap(csv => csv.headers as string[]))];
 
-    let csv = new CSV({ path: output, headers: headers as T[] });
-    await csv.write(data);
+    return new Query(async function* () {
+      for (let csv of sources) {
+        for await (let x of csv.rows()) {
+          let row = x as Record<string, unknown>;
+          let entry: Record<string, unknown> = {};
 
-    return csv;
+          for (let column of columns) entry[column] = row[column] ?? null;
+          yield entry as Stacked<EntryOfCSV<A[number]>>;
+        }
+      }
+    });
   }
 
   /**
-   * Converts the CSV file to a JSON file.
-   * @param output Path to the JSON file to write to.
+   * Function to create a CSV file from JSON, streaming its records.
+   * The headers are all the keys of the records, in the order they first appear, unless passed in the options.
+   * Keys are used as they are, so a key like `time:start` is not read as a type prefix.
+   * Without headers, the records are kept in memory while their keys are collected, and written to a temporary file beyond `runSize` records.
+   * @param input The JSON text, or a stream of it, like `fs.createReadStream("data.json")`, compressed or not.
+   * @param output Path to the CSV file to write to, it's replaced if it exists.
+   * @param opts The options of the CSV file, and of the JSON.
+   * @returns A promise with the CSV file.
+   * @example
+   * let csv = await CSV.fromJson(fs.createReadStream("users.ndjson"), "users.csv");
    */
-  public async toJson(output: string): Promise<void> {
-    let writer = fs.createWriteStream(output);
-    let lp = (await this.read()).length;
+  public static async fromJson<T extends string, C = {}, S extends Schema = {}>(
+    input: string | AsyncIterable<string | Buffer>,
+    output: string,
+    opts: FromJsonOptions<T, C, S> = {}
+  ): Promise<CSV<T, C, S>> {
+    let chunks =
+      typeof input === "string"
+        ? [input]
+        : decompressInput(input, opts.jsonCompression);
+    let flat = opts.flatten ?? true;
 
-    let h: string[] = [];
+    let records = async function* () {
+      for await (let record of parseJson(chunks, opts.format)) {
+        if (record === null || typeof record !== "object") {
+          throw new Error(
+            `Invalid JSON record: ${JSON.stringify(
+              record
+            )}. Records must be objects.`
+          );
+        }
 
-    writer.write("[");
+        yield flat ? flatten(record) : (record as Record<string, unknown>);
+      }
+    };
 
-    return new Promise(async (res, rej) => {
-      await readLines(
-        this.getPath(),
-        (line, i) => {
-          if (i === 0) {
-            h = line.split(this.delimiter);
-          } else {
-            let obj: { [key: string]: unknown } = {};
-            let data = line.split(this.delimiter);
+    let write = async (
+      entries: AsyncIterable<Record<string, unknown>>,
+      keys?: string[]
+    ) => {
+      let csv = new CSV<T, C, S>({
+        ...opts,
+        path: output,
+        deletePrevious: true
+      });
 
-            let l = h.length;
+      await csv.exclusive(async () => {
+        let i = 0;
 
-            for (let i = 0; i < l; i++) {
-              let v = data[i];
+        // The keys of the records are names, not headers with a type prefix or a suffix.
+        if (keys) csv.nameColumns(keys);
+        csv.errors = [];
 
-              obj[h[i]] = parser.parseValue(v);
+        await csv.rewrite(
+          (async function* () {
+            for await (let entry of entries) {
+              let line = csv.serializeLine(entry as EntryOf<T, C, S>, i++);
+              if (line !== null) yield line;
             }
+          })()
+        );
+      });
+
+      return csv;
+    };
+
+    if (opts.headers || opts.schema) return write(records());
 
-            writer.write(JSON.stringify(obj));
+    const runSize = opts.runSize ?? 100000;
 
-            if (lp > 1) writer.write(",\n");
-            lp--;
+    let headers = new Set<string>();
+    let buffered: Record<string, unknown>[] = [];
+    let iterator = records();
+    let next = await iterator.next();
+
+    // The keys missing in a record are null, like the empty fields of the file.
+    let complete = (record: Record<string, unknown>) => {
+      for (let header of headers) record[header] ??= null;
+      return record;
+    };
+
+    while (!next.done && buffered.length < runSize) {
+      for (let key in next.value) headers.add(key);
+      buffered.push(next.value);
+      next = await iterator.next();
+    }
+
+    if (next.done) {
+      return write(
+        (async function* () {
+          for (let record of buffered) yield complete(record);
+        })(),
+        [...headers]
+      );
+    }
+
+    let dir = await fs.promises.mkdtemp(join(os.tmpdir(), "csv-rw-json-"));
+    let spilled = join(dir, "records.ndjson");
+
+    try {
+      await writeFileAtomic(
+        spilled,
+        (async function* () {
+          for (let record of buffered) yield JSON.stringify(record) + "\n";
+          buffered = [];
+
+          while (!next.done) {
+            for (let key in next.value) headers.add(key);
+            yield JSON.stringify(next.value) + "\n";
+            next = await iterator.next();
           }
-        },
-        {
-          onFinish: err => {
-            if (err) rej(err);
-            writer.write("]");
-            writer.close();
-            res();
+        })()
+      );
+
+      return await write(
+        (async function* () {
+          let lines = readline.createInterface({
+            input: fs.createReadStream(spilled),
+            crlfDelay: Infinity
+          });
+
+          for await (let line of lines) {
+            if (line !== "") yield complete(JSON.parse(line));
           }
-        }
+        })(),
+        [...headers]
       );
-    });
+    } finally {
+      await fs.promises.rm(dir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Function to convert the CSV file to JSON, streaming its entries.
+   * The values are parsed like by `read`, with the types of the headers or schema.
+   * @param output Path to the JSON file to write to, or a writable stream like `process.stdout`.
+   * @param opts.format `json` for an array (the default) or `ndjson` for newline-delimited JSON.
+   * @param opts.unflatten Whether to turn columns with dot paths back into nested objects, defaults to true.
+   * @param opts.compression How to compress the JSON, detected from the extension of the output path by default.
+   */
+  public async toJson(
+    output: string | NodeJS.WritableStream,
+    opts: ToJsonOptions = {}
+  ): Promise<void> {
+    let csv = this;
+    let format = opts.format ?? "json";
+    let nested = opts.unflatten ?? true;
+    let compression =
+      opts.compression ??
+      (typeof output === "string" ? compressionOf(output) : "none");
+
+    // Bigints are written as strings, since JSON numbers can't hold them.
+    let stringify = (entry: EntryOf<T, C, S>) =>
+      JSON.stringify(nested ? unflatten(entry) : entry, (_, value) =>
+        typeof value === "bigint" ? value.toString() : value
+      );
+
+    async function* chunks() {
+      let first = true;
+
+      if (format === "json") yield "[";
+
+      for await (let entry of csv.rows()) {
+        if (format === "ndjson") yield stringify(entry) + "\n";
+        else yield (first ? "" : ",\n") + stringify(entry);
+
+        first = false;
+      }
+
+      if (format === "json") yield "]";
+    }
+
+    let data =
+      compression === "none" ? chunks() : compress(chunks(), compression);
+
+    if (typeof output === "string") return writeFileAtomic(output, data);
+
+    for await (let chunk of data) {
+      if (!output.write(chunk)) await once(output, "drain");
+    }
   }
 }
 
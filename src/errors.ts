@@ -0,0 +1,94 @@
+interface ValidationErrorOptions {
+  row?: number;
+  column: string;
+  value: unknown;
+}
+
+/**
+ * Error thrown when a value doesn't match the type declared for its column.
+ */
+class ValidationError extends Error {
+  /**
+   * The index of the entry, or -1 if unknown.
+   */
+  public row: number;
+
+  /**
+   * The name of the column.
+   */
+  public column: string;
+
+  /**
+   * The invalid value.
+   */
+  public value: unknown;
+
+  public constructor(message: string, opts: ValidationErrorOptions) {
+    let at = opts.row !== undefined ? ` at row ${opts.row}` : "";
+
+    super(`Invalid value for column "${opts.column}"${at}: ${message}`);
+
+    this.name = "ValidationError";
+    this.row = opts.row ?? -1;
+    this.column = opts.column;
+    this.value = opts.value;
+  }
+}
+
+/**
+ * Error thrown when the lock on a file can't be acquired in time.
+ */
+class LockError extends Error {
+  /**
+   * The path of the locked file.
+   */
+  public path: string;
+
+  public constructor(message: string, opts: { path: string }) {
+    super(message);
+
+    this.name = "LockError";
+    this.path = opts.path;
+  }
+}
+
+/**
+ * Error thrown when the headers declared for a file differ from its header row.
+ */
+class HeaderMismatchError extends Error {
+  /**
+   * The path of the file.
+   */
+  public path: string;
+
+  /**
+   * The names of the declared columns.
+   */
+  public expected: string[];
+
+  /**
+   * The names in the header row of the file.
+   */
+  public found: string[];
+
+  public constructor(opts: {
+    path: string;
+    expected: string[];
+    found: string[];
+  }) {
+    super(
+      `The headers of "${
+        opts.path
+      }" don't match the declared ones: expected ${opts.expected.join(
+        ", "
+      )}, found ${opts.found.join(", ")}.`
+    );
+
+    this.name = "HeaderMismatchError";
+    this.path = opts.path;
+    this.expected = opts.expected;
+    this.found = opts.found;
+  }
+}
+
+export { ValidationError, LockError, HeaderMismatchError };
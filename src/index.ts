@@ -1,4 +1,11 @@
+export * from "./codecs";
 export * from "./csv";
+export * from "./errors";
 export * from "./lib";
 export * from "./parser";
+export * from "./query";
+export * from "./sniffer";
+export * from "./storage";
+export * from "./stream";
 export * from "./types";
+export * from "./text";
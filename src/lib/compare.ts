@@ -0,0 +1,65 @@
+type Direction = "asc" | "desc";
+
+/**
+ * A value that can be ordered with `<` and `>`, dates are compared by their time.
+ */
+type Comparable = number | bigint | string | boolean;
+
+interface SortKey<E> {
+  by: keyof E | ((x: E) => unknown);
+  direction: Direction;
+}
+
+/**
+ * Function to get the type of a value to compare, telling dates apart from other objects.
+ * @private
+ */
+function typeOf(v: unknown): string {
+  return v instanceof Date ? "date" : typeof v;
+}
+
+/**
+ * Function to compare two values of a column: numbers, bigints, strings, booleans and dates,
+ * with null and undefined after every other value.
+ * Values of different types, like `1` and `"1"`, are never equal and are ordered by type.
+ * @private
+ */
+function compare(a: unknown, b: unknown): number {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return 1;
+  if (b === null || b === undefined) return -1;
+
+  let ta = typeOf(a);
+  let tb = typeOf(b);
+
+  if (ta !== tb) return ta < tb ? -1 : 1;
+
+  let x = (a instanceof Date ? a.getTime() : a) as Comparable;
+  let y = (b instanceof Date ? b.getTime() : b) as Comparable;
+
+  return x < y ? -1 : x > y ? 1 : 0;
+}
+
+/**
+ * Function to create a comparison function that sorts by each key in turn,
+ * with null values last in both directions.
+ * @private
+ */
+function comparator<E>(keys: SortKey<E>[]): (a: E, b: E) => number {
+  return (a, b) => {
+    for (let { by, direction } of keys) {
+      let x = typeof by === "function" ? by(a) : a[by];
+      let y = typeof by === "function" ? by(b) : b[by];
+      let order = compare(x, y);
+
+      if (order !== 0) {
+        let nulls = x == null || y == null;
+        return direction === "desc" && !nulls ? -order : order;
+      }
+    }
+
+    return 0;
+  };
+}
+
+export { compare, comparator, type Comparable, type Direction, type SortKey };
@@ -0,0 +1,138 @@
+import zlib from "zlib";
+import { pipeline, Readable } from "stream";
+import { Compression } from "../types";
+
+/**
+ * The compressions that change the bytes of a file.
+ */
+type Algorithm = Exclude<Compression, "none">;
+
+/**
+ * Function to get the compression of a file from the extension of its path, `.gz` or `.br`.
+ * @private
+ */
+function compressionOf(path: string): Compression {
+  if (/\.gz$/i.test(path)) return "gzip";
+  if (/\.br$/i.test(path)) return "brotli";
+
+  return "none";
+}
+
+/**
+ * Function to check whether a chunk starts with the magic bytes of gzip.
+ * @private
+ */
+function isGzip(chunk: Buffer): boolean {
+  return chunk[0] === 0x1f && chunk[1] === 0x8b;
+}
+
+/**
+ * Function to pipe chunks through a zlib stream.
+ * Errors of the chunks are thrown by the iteration, and breaking out of it stops reading them.
+ * @private
+ */
+function transform(
+  chunks: AsyncIterable<Buffer | string> | Iterable<Buffer | string>,
+  stream: zlib.Gzip | zlib.Gunzip | zlib.BrotliCompress | zlib.BrotliDecompress
+): AsyncIterable<Buffer> {
+  return pipeline(Readable.from(chunks), stream, () => {});
+}
+
+/**
+ * Function to compress chunks as they are read.
+ * @private
+ */
+function compress(
+  chunks: AsyncIterable<Buffer | string> | Iterable<Buffer | string>,
+  compression: Algorithm
+): AsyncIterable<Buffer> {
+  return transform(
+    chunks,
+    compression === "gzip" ? zlib.createGzip() : zlib.createBrotliCompress()
+  );
+}
+
+/**
+ * Function to decompress chunks as they are read.
+ * Gzip files with several members, like the ones appended to, are read as a whole.
+ * @private
+ */
+function decompress(
+  chunks: AsyncIterable<Buffer> | Iterable<Buffer>,
+  compression: Algorithm
+): AsyncIterable<Buffer> {
+  return transform(
+    chunks,
+    compression === "gzip" ? zlib.createGunzip() : zlib.createBrotliDecompress()
+  );
+}
+
+/**
+ * Function to compress bytes at once.
+ * @private
+ */
+function compressSync(data: Buffer, compression: Algorithm): Buffer {
+  return compression === "gzip"
+    ? zlib.gzipSync(data)
+    : zlib.brotliCompressSync(data);
+}
+
+/**
+ * Function to decompress bytes at once.
+ * @param partial Whether the bytes may be only the beginning of the compressed data,
+ * in which case as much as possible is decompressed instead of throwing.
+ * @private
+ */
+function decompressSync(
+  data: Buffer,
+  compression: Algorithm,
+  partial: boolean = false
+): Buffer {
+  if (compression === "gzip") {
+    return zlib.gunzipSync(
+      data,
+      partial ? { finishFlush: zlib.constants.Z_SYNC_FLUSH } : {}
+    );
+  }
+
+  return zlib.brotliDecompressSync(
+    data,
+    partial ? { finishFlush: zlib.constants.BROTLI_OPERATION_FLUSH } : {}
+  );
+}
+
+/**
+ * Function to decompress chunks that may be compressed.
+ * @param compression How the chunks are compressed, if omitted gzip is detected from the first bytes.
+ * @private
+ */
+async function* decompressInput(
+  chunks: AsyncIterable<Buffer | string>,
+  compression?: Compression
+): AsyncGenerator<Buffer | string, void, undefined> {
+  let iterator = chunks[Symbol.asyncIterator]();
+  let first = await iterator.next();
+
+  if (first.done) return;
+
+  let all = (async function* () {
+    yield first.value;
+    yield* { [Symbol.asyncIterator]: () => iterator };
+  })();
+
+  compression ??=
+    typeof first.value !== "string" && isGzip(first.value) ? "gzip" : "none";
+
+  if (compression === "none") yield* all;
+  else yield* decompress(all as AsyncIterable<Buffer>, compression);
+}
+
+export {
+  type Algorithm,
+  compressionOf,
+  compress,
+  decompress,
+  compressSync,
+  decompressSync,
+  decompressInput
+};
@@ -0,0 +1,160 @@
+import { Encoding } from "../types";
+
+const boms: [Encoding, number[]][] = [
+  ["utf-8", [0xef, 0xbb, 0xbf]],
+  ["utf-16le", [0xff, 0xfe]],
+  ["utf-16be", [0xfe, 0xff]]
+];
+
+/**
+ * Function to get the byte order mark of an encoding, empty for Latin-1.
+ * @private
+ */
+function byteOrderMark(encoding: Encoding): Buffer {
+  return Buffer.from(boms.find(([e]) => e === encoding)?.[1] ?? []);
+}
+
+/**
+ * Function to check whether a sample starts with the byte order mark of an encoding.
+ * @private
+ */
+function hasByteOrderMark(sample: Buffer, encoding: Encoding): boolean {
+  let bom = byteOrderMark(encoding);
+  return bom.length > 0 && bom.equals(sample.subarray(0, bom.length));
+}
+
+/**
+ * The characters of the bytes 0x80 to 0x9f in Windows-1252, the other bytes are the same as in Latin-1.
+ */
+const windows1252 = "€\u0081‚ƒ„…†‡ˆ‰Š‹Œ\u008dŽ\u008f\u0090‘’“”•–—˜™š›œ\u009džŸ";
+
+interface Decoder {
+  decode(input?: Uint8Array, opts?: { stream?: boolean }): string;
+}
+
+/**
+ * Function to create a decoder that can be fed chunks of a file,
+ * removing the byte order mark at the beginning if there is one.
+ * Latin-1 is decoded as Windows-1252, the superset used by Excel.
+ * @private
+ */
+function createDecoder(encoding: Encoding): Decoder {
+  if (encoding !== "latin1") return new TextDecoder(encoding);
+
+  return {
+    decode(input) {
+      return Buffer.from(input ?? [])
+        .toString("latin1")
+        .replace(/[\x80-\x9f]/g, c => windows1252[c.charCodeAt(0) - 0x80]);
+    }
+  };
+}
+
+/**
+ * Function to encode a string, without a byte order mark.
+ * Latin-1 is encoded as Windows-1252, and characters it can't represent are replaced with `?`.
+ * @private
+ */
+function encode(text: string, encoding: Encoding): Buffer {
+  if (encoding === "utf-8") return Buffer.from(text, "utf-8");
+  if (encoding === "utf-16le") return Buffer.from(text, "utf16le");
+  if (encoding === "utf-16be") return Buffer.from(text, "utf16le").swap16();
+
+  let bytes = Buffer.alloc(text.length);
+  let i = 0;
+
+  for (let char of text) {
+    let code = char.codePointAt(0)!;
+    let special = windows1252.indexOf(char);
+
+    if (special !== -1) code = 0x80 + special;
+    else if (code > 0xff || (code >= 0x80 && code <= 0x9f)) code = 0x3f;
+
+    bytes[i++] = code;
+  }
+
+  return bytes.subarray(0, i);
+}
+
+/**
+ * Function to get the number of bytes of a string once encoded.
+ * @private
+ */
+function byteLength(text: string, encoding: Encoding): number {
+  if (encoding === "utf-8") return Buffer.byteLength(text, "utf-8");
+  if (encoding === "latin1") return text.length;
+  return text.length * 2;
+}
+
+/**
+ * Function to get the number of bytes of a UTF-8 character cut at the end of a sample, from 0 to 3.
+ * @private
+ */
+function cutCharacter(sample: Buffer): number {
+  for (let k = 1; k <= Math.min(3, sample.length); k++) {
+    let byte = sample[sample.length - k];
+
+    // Continuation bytes are preceded by the first byte of their character.
+    if ((byte & 0xc0) === 0x80) continue;
+    if (byte < 0xc0) return 0;
+
+    let length = byte >= 0xf0 ? 4 : byte >= 0xe0 ? 3 : 2;
+    return length > k ? k : 0;
+  }
+
+  return 0;
+}
+
+/**
+ * Function to detect the encoding of a file from a sample of its first bytes.
+ * The byte order mark is used if there is one, otherwise UTF-16 is recognized from its zero bytes,
+ * and samples that are not valid UTF-8 are assumed to be Latin-1.
+ * Only a partial sample may end with an incomplete UTF-8 character.
+ * @param sample The first bytes of the file.
+ * @param complete Whether the sample is the whole file.
+ * @private
+ */
+function detectEncoding(
+  sample: Buffer,
+  complete = false
+): { encoding: Encoding; bom: boolean } {
+  for (let [encoding] of boms) {
+    if (hasByteOrderMark(sample, encoding)) return { encoding, bom: true };
+  }
+
+  let zeros = [0, 0];
+  for (let i = 0; i < sample.length; i++) {
+    if (sample[i] === 0) zeros[i % 2]++;
+  }
+
+  if (zeros[1] > sample.length / 4) return { encoding: "utf-16le", bom: false };
+  if (zeros[0] > sample.length / 4) return { encoding: "utf-16be", bom: false };
+
+  try {
+    let end = complete ? sample.length : sample.length - cutCharacter(sample);
+
+    new TextDecoder("utf-8", { fatal: true }).decode(sample.subarray(0, end));
+    return { encoding: "utf-8", bom: false };
+  } catch {
+    return { encoding: "latin1", bom: false };
+  }
+}
+
+/**
+ * Function to decode a sample of a file, removing the byte order mark if there is one.
+ * An incomplete character at the end of the sample is ignored.
+ * @private
+ */
+function decodeSample(sample: Buffer, encoding: Encoding): string {
+  return createDecoder(encoding).decode(sample, { stream: true });
+}
+
+export {
+  byteOrderMark,
+  hasByteOrderMark,
+  createDecoder,
+  encode,
+  byteLength,
+  detectEncoding,
+  decodeSample
+};
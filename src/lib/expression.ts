@@ -0,0 +1,246 @@
+import { compare } from "./compare";
+
+type Predicate = (entry: Record<string, unknown>) => boolean;
+
+type Token =
+  | { kind: "word"; value: string }
+  | { kind: "string"; value: string }
+  | { kind: "op"; value: string };
+
+const operators = [
+  "==",
+  "!=",
+  "<>",
+  "<=",
+  ">=",
+  "&&",
+  "||",
+  "=",
+  "<",
+  ">",
+  "~",
+  "!",
+  "(",
+  ")"
+];
+
+const comparisons = ["=", "==", "!=", "<>", "<", "<=", ">", ">=", "~"];
+
+/**
+ * Function to split an expression into words, quoted strings and operators.
+ * @private
+ */
+function tokenize(expression: string): Token[] {
+  let tokens: Token[] = [];
+  let i = 0;
+
+  while (i < expression.length) {
+    let c = expression[i];
+
+    if (c.trim() === "") {
+      i++;
+      continue;
+    }
+
+    if (c === '"' || c === "'") {
+      let end = i + 1;
+      let value = "";
+
+      while (end < expression.length && expression[end] !== c) {
+        if (expression[end] === "\\") end++;
+        value += expression[end++] ?? "";
+      }
+
+      if (end >= expression.length) {
+        throw new SyntaxError(
+          `Invalid expression: unterminated string at ${i}.`
+        );
+      }
+
+      tokens.push({ kind: "string", value });
+      i = end + 1;
+      continue;
+    }
+
+    let op = operators.find(o => expression.startsWith(o, i));
+
+    if (op) {
+      tokens.push({ kind: "op", value: op });
+      i += op.length;
+      continue;
+    }
+
+    let word = expression.slice(i).match(/^[^\s"'=!<>~&|()]+/)?.[0];
+
+    if (!word) {
+      throw new SyntaxError(`Invalid expression: unexpected "${c}" at ${i}.`);
+    }
+
+    tokens.push({ kind: "word", value: word });
+    i += word.length;
+  }
+
+  return tokens;
+}
+
+/**
+ * Function to read a literal: a number, true, false, null, or a string, quoted or not.
+ * @private
+ */
+function literal(token: Token): unknown {
+  if (token.kind === "string") return token.value;
+
+  let word = token.value;
+  let lower = word.toLowerCase();
+
+  if (lower === "null") return null;
+  if (lower === "true" || lower === "false") return lower === "true";
+  if (word.trim() !== "" && !isNaN(+word)) return +word;
+
+  return word;
+}
+
+/**
+ * Function to compare the value of a column with a literal, converting the literal to dates, bigints and strings if needed.
+ * @private
+ */
+function test(value: unknown, op: string, expected: unknown): boolean {
+  if (op === "~") {
+    return value != null && new RegExp(String(expected)).test(String(value));
+  }
+
+  if (value instanceof Date && typeof expected === "string") {
+    expected = new Date(expected);
+  } else if (typeof value === "bigint" && typeof expected === "number") {
+    expected = BigInt(expected);
+  } else if (
+    typeof value === "string" &&
+    (typeof expected === "number" || typeof expected === "boolean")
+  ) {
+    expected = String(expected);
+  }
+
+  let equal =
+    value == null || expected == null
+      ? value == expected
+      : compare(value, expected) === 0;
+
+  if (op === "=" || op === "==") return equal;
+  if (op === "!=" || op === "<>") return !equal;
+  if (value == null || expected == null) return false;
+
+  let order = compare(value, expected);
+
+  if (op === "<") return order < 0;
+  if (op === "<=") return order <= 0;
+  if (op === ">") return order > 0;
+  return order >= 0;
+}
+
+/**
+ * Function to compile a filter expression into a predicate on entries.
+ * Expressions compare a column with a value, like `age >= 18` or `name = "John"`, with the operators
+ * `=`, `!=`, `<`, `<=`, `>`, `>=` and `~` (matches a regular expression),
+ * and are combined with `and`, `or`, `not` and parentheses.
+ * Values are numbers, `true`, `false`, `null` or strings, which can be left unquoted if they are a single word.
+ * @param expression The expression, e.g. `age >= 18 and (city = Rome or city = Milan)`.
+ * @throws SyntaxError if the expression is invalid.
+ * @private
+ */
+function compile(expression: string): Predicate {
+  let tokens = tokenize(expression);
+  let pos = 0;
+
+  let peek = () => tokens[pos];
+  let is = (...values: string[]) => {
+    let token = peek();
+    return (
+      token !== undefined &&
+      token.kind !== "string" &&
+      values.includes(token.value.toLowerCase())
+    );
+  };
+  let fail = (message: string): never => {
+    throw new SyntaxError(`Invalid expression: ${message}.`);
+  };
+
+  let or = (): Predicate => {
+    let left = and();
+
+    while (is("or", "||")) {
+      pos++;
+      let a = left;
+      let b = and();
+      left = x => a(x) || b(x);
+    }
+
+    return left;
+  };
+
+  let and = (): Predicate => {
+    let left = not();
+
+    while (is("and", "&&")) {
+      pos++;
+      let a = left;
+      let b = not();
+      left = x => a(x) && b(x);
+    }
+
+    return left;
+  };
+
+  let not = (): Predicate => {
+    if (is("not", "!")) {
+      pos++;
+      let a = not();
+      return x => !a(x);
+    }
+
+    if (is("(")) {
+      pos++;
+      let a = or();
+      if (!is(")")) return fail(`expected ")" at token ${pos + 1}`);
+      pos++;
+      return a;
+    }
+
+    return comparison();
+  };
+
+  let comparison = (): Predicate => {
+    let [column, op, value] = tokens.slice(pos, pos + 3);
+
+    if (!column || column.kind === "op") {
+      return fail(`expected a column at token ${pos + 1}`);
+    }
+
+    if (!op || op.kind !== "op" || !comparisons.includes(op.value)) {
+      return fail(`expected an operator after "${column.value}"`);
+    }
+
+    if (!value || value.kind === "op") {
+      return fail(`expected a value after "${op.value}"`);
+    }
+
+    pos += 3;
+
+    let name = column.value;
+    let operator = op.value;
+    let expected = literal(value);
+
+    // Invalid patterns fail now rather than on the first entry.
+    if (operator === "~") new RegExp(String(expected));
+
+    return x => test(x[name], operator, expected);
+  };
+
+  if (tokens.length === 0) return fail("it's empty");
+
+  let predicate = or();
+  if (pos < tokens.length) return fail(`unexpected "${tokens[pos].value}"`);
+
+  return predicate;
+}
+
+export { compile, type Predicate };
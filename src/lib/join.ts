@@ -0,0 +1,159 @@
+import { JoinType } from "../types";
+import { compare } from "./compare";
+import { keyOf } from "./offsets";
+
+interface JoinSides<L, R, E> {
+  left: AsyncIterable<L>;
+  right: AsyncIterable<R>;
+  leftKey: (x: L) => unknown;
+  rightKey: (x: R) => unknown;
+  type: JoinType;
+  combine: (l: L | null, r: R | null) => E;
+}
+
+/**
+ * Function to join two sides by keeping one of them in memory, in a map by key, and streaming the other.
+ * The entries are in the order of the streamed side,
+ * followed by the unmatched entries of the side in memory for outer joins.
+ * Null keys never match.
+ * @param build The side to keep in memory.
+ * @private
+ */
+async function* hashJoin<L, R, E>(
+  sides: JoinSides<L, R, E>,
+  build: "left" | "right"
+): AsyncGenerator<E, void, undefined> {
+  let { left, right, leftKey, rightKey, type, combine } = sides;
+
+  if (build === "left") {
+    yield* hashJoin(
+      {
+        left: right,
+        right: left,
+        leftKey: rightKey,
+        rightKey: leftKey,
+        type: type === "left" ? "right" : type === "right" ? "left" : type,
+        combine: (r, l) => combine(l, r)
+      },
+      "right"
+    );
+    return;
+  }
+
+  let map = new Map<string, { entry: R; matched: boolean }[]>();
+  let unkeyed: R[] = [];
+
+  for await (let entry of right) {
+    let key = rightKey(entry);
+
+    if (key === null || key === undefined) {
+      unkeyed.push(entry);
+      continue;
+    }
+
+    let id = keyOf(key);
+    let matches = map.get(id);
+
+    if (matches) matches.push({ entry, matched: false });
+    else map.set(id, [{ entry, matched: false }]);
+  }
+
+  for await (let entry of left) {
+    let key = leftKey(entry);
+    let matches =
+      key === null || key === undefined ? null : map.get(keyOf(key));
+
+    if (!matches) {
+      if (type === "left" || type === "full") yield combine(entry, null);
+      continue;
+    }
+
+    for (let match of matches) {
+      match.matched = true;
+      yield combine(entry, match.entry);
+    }
+  }
+
+  if (type !== "right" && type !== "full") return;
+
+  for (let matches of map.values()) {
+    for (let { entry, matched } of matches) {
+      if (!matched) yield combine(null, entry);
+    }
+  }
+
+  for (let entry of unkeyed) yield combine(null, entry);
+}
+
+/**
+ * Function to join two sides that are both sorted by key, streaming both of them.
+ * Only the entries of the right side with the same key are kept in memory at once.
+ * Null keys, which are sorted last, never match.
+ * @private
+ */
+async function* mergeJoin<L, R, E>(
+  sides: JoinSides<L, R, E>
+): AsyncGenerator<E, void, undefined> {
+  let { type, leftKey, rightKey, combine } = sides;
+  let outer = {
+    left: type === "left" || type === "full",
+    right: type === "right" || type === "full"
+  };
+
+  let lefts = sides.left[Symbol.asyncIterator]();
+  let rights = sides.right[Symbol.asyncIterator]();
+
+  let next = async <X>(it: AsyncIterator<X>) => {
+    let result = await it.next();
+    return result.done ? null : { value: result.value };
+  };
+
+  let l = await next(lefts);
+  let r = await next(rights);
+
+  try {
+    while (l || r) {
+      let lk = l && leftKey(l.value);
+      let rk = r && rightKey(r.value);
+
+      if (l && lk == null) {
+        if (outer.left) yield combine(l.value, null);
+        l = await next(lefts);
+        continue;
+      }
+
+      if (r && rk == null) {
+        if (outer.right) yield combine(null, r.value);
+        r = await next(rights);
+        continue;
+      }
+
+      let order = !l ? 1 : !r ? -1 : compare(lk, rk);
+
+      if (order < 0) {
+        if (outer.left) yield combine(l!.value, null);
+        l = await next(lefts);
+      } else if (order > 0) {
+        if (outer.right) yield combine(null, r!.value);
+        r = await next(rights);
+      } else {
+        let group: R[] = [];
+
+        while (r && compare(rightKey(r.value), rk) === 0) {
+          group.push(r.value);
+          r = await next(rights);
+        }
+
+        while (l && compare(leftKey(l.value), rk) === 0) {
+          for (let match of group) yield combine(l.value, match);
+          l = await next(lefts);
+        }
+      }
+    }
+  } finally {
+    await lefts.return?.();
+    await rights.return?.();
+  }
+}
+
+export { hashJoin, mergeJoin, type JoinSides };
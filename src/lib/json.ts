@@ -0,0 +1,183 @@
+type JsonFormat = "json" | "ndjson";
+
+/**
+ * Function to split the elements of a JSON array as they arrive, without parsing the whole array.
+ * @private
+ */
+function arrayScanner() {
+  let buffer = "";
+  let pos = 0;
+  let start = -1;
+  let depth = 0;
+  let string = false;
+  let escaped = false;
+  let closed = false;
+
+  return {
+    push(text: string): unknown[] {
+      let elements: unknown[] = [];
+      let element = (end: number) => {
+        let json = buffer.slice(start, end);
+        if (json.trim() !== "") elements.push(JSON.parse(json));
+        start = end + 1;
+      };
+
+      buffer += text;
+
+      for (; pos < buffer.length && !closed; pos++) {
+        let c = buffer[pos];
+
+        if (string) {
+          if (escaped) escaped = false;
+          else if (c === "\\") escaped = true;
+          else if (c === '"') string = false;
+        } else if (c === '"') {
+          string = true;
+        } else if (c === "[" || c === "{") {
+          if (++depth === 1) start = pos + 1;
+        } else if (c === "]" || c === "}") {
+          if (--depth === 0) {
+            element(pos);
+            closed = true;
+          }
+        } else if (c === "," && depth === 1) {
+          element(pos);
+        } else if (depth === 0 && c.trim() !== "") {
+          throw new SyntaxError(
+            `Invalid JSON: expected an array, found "${c}".`
+          );
+        }
+      }
+
+      // Drop the elements already parsed.
+      if (start > 0) {
+        buffer = buffer.slice(start);
+        pos -= start;
+        start = 0;
+      }
+
+      return elements;
+    },
+
+    end() {
+      if (!closed)
+        throw new SyntaxError("Invalid JSON: unexpected end of input.");
+    }
+  };
+}
+
+/**
+ * Function to parse the records of a JSON array, or of newline-delimited JSON, as they are read.
+ * @param chunks The JSON text, or chunks of it.
+ * @param format The format, detected from the first character if not passed: `[` for an array, otherwise NDJSON.
+ * @private
+ */
+async function* parseJson(
+  chunks: AsyncIterable<string | Buffer> | Iterable<string | Buffer>,
+  format?: JsonFormat
+): AsyncGenerator<unknown, void, undefined> {
+  let decoder = new TextDecoder();
+  let scanner = arrayScanner();
+  let rest = "";
+
+  let parse = (text: string, last: boolean): unknown[] => {
+    if (!format) {
+      let first = text.trimStart()[0];
+      if (first === undefined) return [];
+
+      format = first === "[" ? "json" : "ndjson";
+    }
+
+    if (format === "json") return scanner.push(text);
+
+    let lines = (rest + text).split("\n");
+    rest = last ? "" : lines.pop()!;
+
+    return lines.filter(l => l.trim() !== "").map(l => JSON.parse(l));
+  };
+
+  for await (let chunk of chunks) {
+    let text =
+      typeof chunk === "string"
+        ? chunk
+        : decoder.decode(chunk, { stream: true });
+
+    // Keep leading whitespace until the format can be detected.
+    if (!format) {
+      text = rest + text;
+      rest = "";
+
+      if (text.trim() === "") {
+        rest = text;
+        continue;
+      }
+    }
+
+    yield* parse(text, false);
+  }
+
+  yield* parse(decoder.decode(), true);
+  if (format === "json") scanner.end();
+}
+
+/**
+ * Function to flatten a record into dot paths, like `address.city` and `tags.0`.
+ * @private
+ */
+function flatten(
+  value: unknown,
+  prefix: string = "",
+  output: Record<string, unknown> = {}
+): Record<string, unknown> {
+  if (value === null || typeof value !== "object") {
+    output[prefix] = value;
+    return output;
+  }
+
+  for (let [key, child] of Object.entries(value)) {
+    flatten(child, prefix === "" ? key : `${prefix}.${key}`, output);
+  }
+
+  return output;
+}
+
+/**
+ * The segments of a path that would reach the prototype of an object instead of one of its keys.
+ */
+const unsafe = ["__proto__", "constructor", "prototype"];
+
+/**
+ * Function to turn the dot paths of an entry back into nested objects, and arrays for numeric keys.
+ * Null values of nested paths are left out, since they are the paths missing in the other records.
+ * Paths through `__proto__`, `constructor` or `prototype` are kept as they are, so a header can't change a prototype.
+ * @private
+ */
+function unflatten(entry: Record<string, unknown>): Record<string, unknown> {
+  let output: Record<string, unknown> = Object.create(null);
+
+  for (let [key, value] of Object.entries(entry)) {
+    let path = key.split(".");
+    if (path.length > 1 && value === null) continue;
+
+    if (path.some(segment => unsafe.includes(segment))) {
+      output[key] = value;
+      continue;
+    }
+
+    let node = output;
+
+    path.forEach((segment, i) => {
+      if (i === path.length - 1) {
+        node[segment] = value;
+        return;
+      }
+
+      node[segment] ??= /^\d+$/.test(path[i + 1]) ? [] : Object.create(null);
+      node = node[segment] as Record<string, unknown>;
+    });
+  }
+
+  return output;
+}
+
+export { parseJson, flatten, unflatten, type JsonFormat };
@@ -0,0 +1,142 @@
+import fs from "fs";
+import os from "os";
+import { randomUUID } from "crypto";
+import { LockError } from "../errors";
+
+interface LockOptions {
+  /**
+   * How long to wait for the lock, in milliseconds, before failing with a `LockError`.
+   * Defaults to 10 seconds.
+   */
+  timeout?: number;
+
+  /**
+   * How long a lock can go without being refreshed, in milliseconds, before it's considered abandoned.
+   * The owner refreshes it while it's held, so it's stale only if the owner crashed. Defaults to 10 seconds.
+   */
+  stale?: number;
+}
+
+/**
+ * Function to check whether a lock file was abandoned:
+ * it wasn't refreshed in time, or its owner is a process of this machine that is not running anymore.
+ * @returns The content of the lock file if it was abandoned, null otherwise.
+ * @private
+ */
+async function staleOwner(
+  lockPath: string,
+  stale: number
+): Promise<string | null> {
+  try {
+    let [stat, owner] = await Promise.all([
+      fs.promises.stat(lockPath),
+      fs.promises.readFile(lockPath, "utf-8")
+    ]);
+
+    if (Date.now() - stat.mtimeMs > stale) return owner;
+
+    let [pid, hostname] = owner.split(":")[0].split("@");
+    if (hostname !== os.hostname()) return null;
+
+    try {
+      process.kill(Number(pid), 0);
+      return null;
+    } catch (err) {
+      return (err as NodeJS.ErrnoException).code === "ESRCH" ? owner : null;
+    }
+  } catch {
+    // The lock was released in the meantime.
+    return null;
+  }
+}
+
+/**
+ * Function to remove an abandoned lock file, so that only one of the processes that found it takes it over.
+ * The file is first moved to a unique name, which only one process can do,
+ * and put back if it turns out to be a new lock, created after another process removed the abandoned one.
+ * @param owner The content of the abandoned lock file.
+ * @private
+ */
+async function removeStale(lockPath: string, owner: string): Promise<void> {
+  let moved = `${lockPath}.${randomUUID()}`;
+
+  try {
+    await fs.promises.rename(lockPath, moved);
+  } catch (err) {
+    // Another process moved it first.
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return;
+    throw err;
+  }
+
+  try {
+    let content = await fs.promises.readFile(moved, "utf-8");
+
+    if (content !== owner) {
+      // Linking fails instead of replacing a lock created in the meantime.
+      await fs.promises.link(moved, lockPath).catch(err => {
+        if (err.code !== "EEXIST") throw err;
+      });
+    }
+  } finally {
+    await fs.promises.rm(moved, { force: true });
+  }
+}
+
+/**
+ * Function to acquire an advisory lock on a file, by creating a `.lock` file next to it.
+ * Abandoned locks are taken over, and while the lock is held its file is refreshed so that others don't take it over.
+ * @param path The path of the file to lock.
+ * @returns A promise with a function that releases the lock.
+ * @private
+ */
+async function acquireLock(
+  path: string,
+  opts: LockOptions = {}
+): Promise<() => Promise<void>> {
+  const timeout = opts.timeout ?? 10000;
+  const stale = opts.stale ?? 10000;
+  const lockPath = path + ".lock";
+  const token = `${process.pid}@${os.hostname()}:${randomUUID()}`;
+
+  let started = Date.now();
+
+  while (true) {
+    try {
+      await fs.promises.writeFile(lockPath, token, { flag: "wx" });
+      break;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "EEXIST") throw err;
+    }
+
+    let owner = await staleOwner(lockPath, stale);
+
+    if (owner !== null) {
+      await removeStale(lockPath, owner);
+      continue;
+    }
+
+    if (Date.now() - started >= timeout) {
+      throw new LockError(`Timed out waiting for the lock on "${path}".`, {
+        path
+      });
+    }
+
+    await new Promise(res => setTimeout(res, 25 + Math.random() * 25));
+  }
+
+  let heartbeat = setInterval(() => {
+    let now = new Date();
+    fs.utimes(lockPath, now, now, () => {});
+  }, stale / 2);
+
+  heartbeat.unref();
+
+  return async () => {
+    clearInterval(heartbeat);
+
+    let owner = await fs.promises.readFile(lockPath, "utf-8").catch(() => null);
+    if (owner === token) await fs.promises.rm(lockPath, { force: true });
+  };
+}
+
+export { acquireLock, type LockOptions };
@@ -0,0 +1,170 @@
+import fs from "fs";
+import { Encoding } from "../types";
+import {
+  byteLength,
+  byteOrderMark,
+  createDecoder,
+  hasByteOrderMark
+} from "./encoding";
+import { recordJoiner, RecordReaderOptions } from "./records";
+
+interface OffsetsOptions extends RecordReaderOptions {
+  /**
+   * The encoding of the file, defaults to `utf-8`.
+   */
+  encoding?: Encoding;
+}
+
+interface RecordOffsets {
+  record: string;
+
+  /**
+   * The byte offset of the first character of the record.
+   */
+  start: number;
+
+  /**
+   * The byte offset after the last character of the record, excluding the line break.
+   */
+  end: number;
+}
+
+/**
+ * The byte offsets of the rows of a CSV file, and the rows of the values of the columns looked up by key.
+ * `size` and `mtimeMs` are the ones of the file when the index was last updated, to tell if it's out of date.
+ * @private
+ */
+interface RowIndex {
+  size: number;
+  mtimeMs: number;
+  rows: [number, number][];
+  keys: Map<string, Map<string, number[]>>;
+}
+
+/**
+ * Iterates over the records of a file, with the byte offsets where they start and end.
+ * @param source The path to the file, or its bytes in chunks.
+ * @private
+ */
+async function* iterateOffsets(
+  source: string | AsyncIterable<Buffer> | Iterable<Buffer>,
+  opts: OffsetsOptions = {}
+): AsyncGenerator<RecordOffsets, void, undefined> {
+  const encoding = opts.encoding ?? "utf-8";
+  const newLine = byteLength("\n", encoding);
+  const carriageReturn = byteLength("\r", encoding);
+
+  let stream = typeof source === "string" ? fs.createReadStream(source) : null;
+  let decoder = createDecoder(encoding);
+  let joiner = recordJoiner(opts);
+  let rest = "";
+  let offset = -1;
+  let start = 0;
+
+  let push = (line: string, terminated: boolean): RecordOffsets | null => {
+    let end = offset + byteLength(line, encoding);
+    let record = joiner.push(line);
+
+    offset = end + (terminated ? newLine : 0);
+    if (record === null) return null;
+
+    let found = {
+      record,
+      start,
+      end: line.endsWith("\r") ? end - carriageReturn : end
+    };
+
+    start = offset;
+    return found;
+  };
+
+  try {
+    for await (let chunk of stream ?? source) {
+      if (offset === -1) {
+        offset = start = hasByteOrderMark(chunk, encoding)
+          ? byteOrderMark(encoding).length
+          : 0;
+      }
+
+      let lines = (rest + decoder.decode(chunk, { stream: true })).split("\n");
+      rest = lines.pop()!;
+
+      for (let line of lines) {
+        let found = push(line, true);
+        if (found) yield found;
+      }
+    }
+
+    rest += decoder.decode();
+    if (offset === -1) return;
+
+    let found = rest !== "" ? push(rest, false) : null;
+    let pending = joiner.rest();
+
+    if (found) yield found;
+    else if (pending !== null) yield { record: pending, start, end: offset };
+  } finally {
+    stream?.destroy();
+  }
+}
+
+/**
+ * Function to turn a value into a string key, so that equal values have the same key.
+ * @private
+ */
+function keyOf(value: unknown): string {
+  if (value instanceof Date) return "date:" + value.getTime();
+  if (value !== null && typeof value === "object") {
+    return "json:" + JSON.stringify(value);
+  }
+
+  return typeof value + ":" + String(value);
+}
+
+/**
+ * Function to load an index from a sidecar file.
+ * @returns The index, or null if the file doesn't exist or can't be read.
+ * @private
+ */
+async function loadIndex(path: string): Promise<RowIndex | null> {
+  try {
+    let data = JSON.parse(await fs.promises.readFile(path, "utf-8"));
+
+    return {
+      size: data.size,
+      mtimeMs: data.mtimeMs,
+      rows: data.rows,
+      keys: new Map(
+        (data.keys as [string, [string, number[]][]][]).map(
+          ([column, keys]) => [column, new Map(keys)]
+        )
+      )
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Function to save an index to a sidecar file.
+ * @private
+ */
+async function saveIndex(path: string, index: RowIndex): Promise<void> {
+  let data = {
+    size: index.size,
+    mtimeMs: index.mtimeMs,
+    rows: index.rows,
+    keys: [...index.keys].map(([column, keys]) => [column, [...keys]])
+  };
+
+  await fs.promises.writeFile(path, JSON.stringify(data));
+}
+
+export {
+  iterateOffsets,
+  keyOf,
+  loadIndex,
+  saveIndex,
+  type RowIndex,
+  type OffsetsOptions
+};
@@ -0,0 +1,165 @@
+interface RecordReaderOptions {
+  /**
+   * The quote character of the file.
+   * If set, lines that end inside a quoted field are joined with the following ones.
+   */
+  quote?: string;
+
+  /**
+   * The delimiter of the file, used together with `quote` to find quoted fields.
+   */
+  delimiter?: string;
+}
+
+interface QuoteState {
+  /**
+   * Whether the text so far ends inside a quoted field.
+   */
+  inQuotes: boolean;
+
+  /**
+   * Whether the current field is quoted.
+   */
+  quoted: boolean;
+
+  /**
+   * Whether the current field has only whitespace so far, so that a quote would start a quoted field.
+   */
+  blank: boolean;
+}
+
+/**
+ * Function to follow the quotes of a line, starting from the state at the end of the previous one,
+ * with the same rules as the tokenizer.
+ * @private
+ */
+function scanQuotes(
+  line: string,
+  state: QuoteState,
+  opts: RecordReaderOptions
+): QuoteState {
+  const delimiter = opts.delimiter ?? ",";
+  const quote = opts.quote!;
+  const l = line.length;
+
+  let { inQuotes, quoted, blank } = state;
+  let i = 0;
+
+  while (i < l) {
+    if (inQuotes) {
+      if (line.startsWith(quote, i)) {
+        if (line.startsWith(quote, i + quote.length)) {
+          i += quote.length * 2;
+        } else {
+          inQuotes = false;
+          i += quote.length;
+        }
+      } else {
+        i++;
+      }
+
+      continue;
+    }
+
+    if (line.startsWith(delimiter, i)) {
+      quoted = false;
+      blank = true;
+      i += delimiter.length;
+      continue;
+    }
+
+    if (!quoted && blank && line.startsWith(quote, i)) {
+      quoted = true;
+      inQuotes = true;
+      i += quote.length;
+      continue;
+    }
+
+    if (line[i].trim() !== "") blank = false;
+    i++;
+  }
+
+  return { inQuotes, quoted, blank };
+}
+
+/**
+ * Function to remove the carriage return of a line ending in `\r\n`.
+ * @private
+ */
+function trimCarriageReturn(line: string): string {
+  return line.endsWith("\r") ? line.slice(0, -1) : line;
+}
+
+/**
+ * Function that returns an object to join physical lines into records.
+ * `push` returns the complete record, or null if the line ends inside a quoted field.
+ * Only the new line is scanned each time, so long multi-line fields are joined in linear time.
+ * @private
+ */
+function recordJoiner(opts: RecordReaderOptions) {
+  let pending: string[] = [];
+  let state: QuoteState = { inQuotes: false, quoted: false, blank: true };
+
+  return {
+    push(line: string): string | null {
+      if (!opts.quote) return trimCarriageReturn(line);
+
+      // A line without quotes can't open or close a quoted field.
+      if (pending.length === 0 && !line.includes(opts.quote)) {
+        return trimCarriageReturn(line);
+      }
+
+      state = scanQuotes(line, state, opts);
+      pending.push(line);
+
+      if (state.inQuotes) return null;
+
+      let record = pending.join("\n");
+
+      pending = [];
+      state = { inQuotes: false, quoted: false, blank: true };
+      return trimCarriageReturn(record);
+    },
+
+    rest(): string | null {
+      return pending.length > 0 ? pending.join("\n") : null;
+    }
+  };
+}
+
+/**
+ * Function that returns an object to split decoded chunks of text into records.
+ * Chunks can end anywhere, even in the middle of a record:
+ * the incomplete part is kept until the next chunk, or until `end` is called.
+ * @private
+ */
+function recordReader(opts: RecordReaderOptions) {
+  let joiner = recordJoiner(opts);
+  let rest = "";
+
+  return {
+    push(chunk: string): string[] {
+      let lines = (rest + chunk).split("\n");
+      let records: string[] = [];
+
+      rest = lines.pop()!;
+
+      for (let line of lines) {
+        let record = joiner.push(line);
+        if (record !== null) records.push(record);
+      }
+
+      return records;
+    },
+
+    end(): string[] {
+      let record = rest !== "" ? joiner.push(rest) : null;
+      let last = record ?? joiner.rest();
+
+      rest = "";
+      return last !== null ? [last] : [];
+    }
+  };
+}
+
+export { recordJoiner, recordReader, type RecordReaderOptions };
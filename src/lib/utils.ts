@@ -1,5 +1,8 @@
 import fs from "fs";
-import rl from "readline";
+import { dirname } from "path";
+import { Encoding } from "../types";
+import { recordReader } from "./records";
+import { createDecoder } from "./encoding";
 
 interface readLinesOptions {
   /**
@@ -7,47 +10,119 @@ interface readLinesOptions {
    */
   limit?: number;
 
+  /**
+   * The quote character of the file.
+   * If set, lines that end inside a quoted field are joined with the following ones,
+   * so that the callback receives whole records instead of physical lines.
+   */
+  quote?: string;
+
+  /**
+   * The delimiter of the file, used together with `quote` to find quoted fields.
+   */
+  delimiter?: string;
+
+  /**
+   * The encoding of the file, defaults to `utf-8`.
+   * A byte order mark at the beginning of the file is skipped.
+   */
+  encoding?: Encoding;
+
   onFinish?: (err?: Error) => void;
 }
 
+interface iterateLinesOptions extends Omit<readLinesOptions, "onFinish"> {
+  /**
+   * A signal to abort the reading, the iteration then throws an `AbortError`.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Iterates over the lines of a file in batches, one for each chunk read,
+ * so that reading a whole file doesn't wait on a promise for every line.
+ * Breaking out of the loop closes the file.
+ * @param source The path to the file, or its bytes in chunks.
+ * @param opts.limit The number of lines to read.
+ * @param opts.quote If set, quoted fields spanning multiple lines are joined in a single record.
+ * @param opts.signal A signal to abort the reading.
+ */
+async function* iterateBatches(
+  source: string | AsyncIterable<Buffer> | Iterable<Buffer>,
+  opts: iterateLinesOptions = {}
+): AsyncGenerator<string[], void, undefined> {
+  let stream =
+    typeof source === "string"
+      ? fs.createReadStream(source, { signal: opts.signal })
+      : null;
+
+  let decoder = createDecoder(opts.encoding ?? "utf-8");
+  let reader = recordReader(opts);
+  let left = opts.limit || Infinity;
+
+  try {
+    for await (let chunk of stream ?? source) {
+      // File streams are aborted by the signal, other sources are checked here.
+      if (!stream) opts.signal?.throwIfAborted();
+
+      let batch = reader.push(decoder.decode(chunk, { stream: true }));
+      if (batch.length === 0) continue;
+
+      if (batch.length >= left) return yield batch.slice(0, left);
+      left -= batch.length;
+      yield batch;
+    }
+
+    let batch = [...reader.push(decoder.decode()), ...reader.end()];
+    if (batch.length > 0) yield batch.slice(0, left);
+  } finally {
+    stream?.destroy();
+  }
+}
+
+/**
+ * Iterates over the lines of a file, reading it only as fast as they are consumed.
+ * Breaking out of the loop closes the file.
+ * @param source The path to the file, or its bytes in chunks.
+ * @param opts.limit The number of lines to read.
+ * @param opts.quote If set, quoted fields spanning multiple lines are joined in a single record.
+ * @param opts.signal A signal to abort the reading.
+ */
+async function* iterateLines(
+  source: string | AsyncIterable<Buffer> | Iterable<Buffer>,
+  opts: iterateLinesOptions = {}
+): AsyncGenerator<string, void, undefined> {
+  for await (let batch of iterateBatches(source, opts)) {
+    yield* batch;
+  }
+}
+
 /**
  * Reads a file line by line.
  * @param path The path to the file.
  * @param cb The callback function to be called for each line.
  * @param opts.limit The number of lines to read.
+ * @param opts.quote If set, quoted fields spanning multiple lines are joined in a single record.
  * @returns A promise that resolves when the file has been read
  */
 async function readLines(
   path: string,
   cb: (line: string, i: number) => void,
-  opts: readLinesOptions = {},
+  opts: readLinesOptions = {}
 ): Promise<void> {
-  let reader = rl.createInterface({
-    input: fs.createReadStream(path, "utf-8")
-  });
-
   let i = 0;
 
-  return new Promise((res, rej) => {
-    reader.on("line", line => {
+  try {
+    for await (let line of iterateLines(path, opts)) {
       cb(line, i);
       i++;
-      if (opts.limit && i >= opts.limit) {
-        reader.close();
-        res();
-      }
-    });
-
-    reader.on("close", () => {
-      res();
-      opts.onFinish?.();
-    });
-    
-    reader.on("error", err => {
-      rej(err);
-      opts.onFinish?.(err);
-    });
-  });
+    }
+  } catch (err) {
+    opts.onFinish?.(err as Error);
+    throw err;
+  }
+
+  opts.onFinish?.();
 }
 
 /**
@@ -55,6 +130,7 @@ async function readLines(
  * @param path The path to the file.
  * @param cb The callback function to be called for each line.
  * @param opts.limit The number of lines to read.
+ * @param opts.quote If set, quoted fields spanning multiple lines are joined in a single record.
  * @returns A promise that resolves when the file has been read
  */
 function readLinesSync(
@@ -62,28 +138,98 @@ function readLinesSync(
   cb: (line: string, i: number) => void,
   opts: readLinesOptions = {}
 ) {
-  const readSize = 1;
-  const newLineChar = "\n";
+  const readSize = 64 * 1024;
 
   let fd = fs.openSync(path, "r");
   let buffer = Buffer.alloc(readSize);
-  let line = "";
-  let newLine = false;
+  let decoder = createDecoder(opts.encoding ?? "utf-8");
+  let reader = recordReader(opts);
   let read: number;
 
   let i = 0;
 
-  do {
-    read = fs.readSync(fd, buffer, 0, readSize, null);
-    let char = buffer.toString("utf-8", 0, read);
-    if (char === newLineChar) {
-      newLine = true;
-      cb(line, i);
-      line = "";
-      i++;
-      if (opts.limit && i >= opts.limit) break;
-    } else line += char;
-  } while (read === readSize);
+  try {
+    do {
+      read = fs.readSync(fd, buffer, 0, readSize, null);
+
+      let records =
+        read > 0
+          ? reader.push(
+              decoder.decode(buffer.subarray(0, read), { stream: true })
+            )
+          : [...reader.push(decoder.decode()), ...reader.end()];
+
+      for (let record of records) {
+        cb(record, i);
+        i++;
+        if (opts.limit && i >= opts.limit) return;
+      }
+    } while (read > 0);
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * Writes a file atomically: the data is written to a temporary file in the same directory,
+ * flushed to disk, and renamed over the file.
+ * If anything fails, even a crash of the process, the file is left untouched.
+ * @param path The path to the file.
+ * @param data The chunks to write, they can be generated while writing.
+ * @returns A promise that resolves when the file has been replaced
+ */
+async function writeFileAtomic(
+  path: string,
+  data: AsyncIterable<Buffer | string> | Iterable<Buffer | string>
+): Promise<void> {
+  const bufferSize = 64 * 1024;
+
+  let temp = `${path}.${process.pid}-${Math.random()
+    .toString(36)
+    .slice(2)}.tmp`;
+  let stat = await fs.promises.stat(path).catch(() => null);
+  let file = await fs.promises.open(temp, "wx", stat?.mode);
+
+  try {
+    try {
+      let buffered: Buffer[] = [];
+      let size = 0;
+
+      for await (let chunk of data) {
+        let buffer = typeof chunk === "string" ? Buffer.from(chunk) : chunk;
+        buffered.push(buffer);
+        size += buffer.length;
+
+        if (size >= bufferSize) {
+          await file.write(Buffer.concat(buffered));
+          buffered = [];
+          size = 0;
+        }
+      }
+
+      await file.write(Buffer.concat(buffered));
+      await file.sync();
+    } finally {
+      await file.close();
+    }
+
+    await fs.promises.rename(temp, path);
+  } catch (err) {
+    await fs.promises.rm(temp, { force: true });
+    throw err;
+  }
+
+  // Flush the rename too, where directories can be opened.
+  try {
+    let dir = await fs.promises.open(dirname(path), "r");
+    await dir.sync().finally(() => dir.close());
+  } catch {}
 }
 
-export { readLines, readLinesSync };
+export {
+  iterateBatches,
+  iterateLines,
+  readLines,
+  readLinesSync,
+  writeFileAtomic
+};
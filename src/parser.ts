@@ -1,99 +1,618 @@
-import { Value } from "./types";
+import { ValidationError } from "./errors";
+import {
+  codecs as builtins,
+  constrain,
+  enumeration,
+  schemaCodecs
+} from "./codecs";
+import {
+  Codec,
+  Codecs,
+  Column,
+  HeaderMapping,
+  Prefix,
+  Quoting,
+  Schema,
+  Value
+} from "./types";
 
 interface ParseOptions {
   delimiter?: string;
+  quote?: string;
+}
+
+interface TokenizeOptions {
+  delimiter?: string;
+  quote?: string;
+}
+
+/**
+ * A single field of a CSV record, as produced by the tokenizer.
+ */
+interface Field {
+  value: string;
+  quoted: boolean;
+}
+
+interface TokenizeResult {
+  fields: Field[];
+  /**
+   * Whether the input ended inside a quoted field,
+   * meaning that the record continues on the next line.
+   */
+  open: boolean;
+}
+
+/**
+ * State machine that splits a record into fields, following RFC 4180.
+ * A field is quoted only if the quote character is its first non-whitespace character,
+ * inside a quoted field the delimiter and line breaks are literal, and a doubled quote is an escaped quote.
+ * @param record The record to tokenize, it may contain line breaks inside quoted fields.
+ * @private
+ */
+function scan(record: string, opts: TokenizeOptions = {}): TokenizeResult {
+  const delimiter = opts.delimiter ?? ",";
+  const quote = opts.quote ?? '"';
+  const l = record.length;
+
+  // Fast path for the common case of a record without any quotes.
+  if (!quote || !record.includes(quote)) {
+    let values = record.split(delimiter);
+    let fields: Field[] = new Array(values.length);
+
+    for (let i = 0; i < values.length; i++) {
+      fields[i] = { value: values[i], quoted: false };
+    }
+
+    return { fields, open: false };
+  }
+
+  let fields: Field[] = [];
+  let value = "";
+  let quoted = false;
+  let inQuotes = false;
+  let i = 0;
+
+  while (i < l) {
+    if (inQuotes) {
+      if (quote && record.startsWith(quote, i)) {
+        if (record.startsWith(quote, i + quote.length)) {
+          value += quote;
+          i += quote.length * 2;
+        } else {
+          inQuotes = false;
+          i += quote.length;
+        }
+      } else {
+        value += record[i];
+        i++;
+      }
+
+      continue;
+    }
+
+    if (record.startsWith(delimiter, i)) {
+      fields.push({ value, quoted });
+      value = "";
+      quoted = false;
+      i += delimiter.length;
+      continue;
+    }
+
+    if (
+      quote &&
+      !quoted &&
+      value.trim() === "" &&
+      record.startsWith(quote, i)
+    ) {
+      value = "";
+      quoted = true;
+      inQuotes = true;
+      i += quote.length;
+      continue;
+    }
+
+    // Whitespace between a closing quote and the delimiter is ignored.
+    if (!quoted || record[i].trim() !== "") value += record[i];
+    i++;
+  }
+
+  fields.push({ value, quoted });
+
+  return { fields, open: inQuotes };
+}
+
+/**
+ * Function to split a CSV record into its fields.
+ * @param record The record to split.
+ * @param opts.delimiter The delimiter that separates the fields.
+ * @param opts.quote The character used to quote fields.
+ * @returns The fields of the record, with quotes removed and escaped quotes unescaped.
+ */
+function tokenize(record: string, opts: TokenizeOptions = {}): Field[] {
+  return scan(record, opts).fields;
+}
+
+/**
+ * Function to check whether a record is complete, or if it ends inside a quoted field
+ * and should be joined with the following line.
+ * @param record The record to check.
+ */
+function isRecordComplete(record: string, opts: TokenizeOptions = {}): boolean {
+  return !scan(record, opts).open;
 }
 
 function parseValue(v: string): Value {
-  v = v.toLowerCase().trim();
+  v = v.trim();
 
-  if (v === "null" || v === "") {
+  if (v === "") {
     return null;
   }
 
-  if (v === "true" || v === "false") {
-    return v === "true";
+  // Only short values can be keywords, longer ones are not lowercased.
+  if (v.length <= 5) {
+    let lower = v.toLowerCase();
+
+    if (lower === "null") {
+      return null;
+    }
+
+    if (lower === "true" || lower === "false") {
+      return lower === "true";
+    }
   }
 
-  if (!isNaN(+v)) {
-    return +v;
+  let n = +v;
+
+  return isNaN(n) ? v : n;
+}
+
+/**
+ * Function to get the value of a field.
+ * Quoted fields are always strings and are kept as they are,
+ * unquoted fields are trimmed and their type is inferred.
+ * @param field The field to parse.
+ */
+function parseField(field: Field | undefined): Value {
+  if (!field) return null;
+  return field.quoted ? field.value : parseValue(field.value);
+}
+
+/**
+ * Function to parse the headers into columns, reading the type prefix and the optional suffix of each one.
+ * @param headers The array of headers to use when parsing the CSV file, e.g. `["s:name", "n:age?"]`.
+ * @param codecs Custom codecs by type prefix or by column name, they take precedence over the built-in ones.
+ * @returns The columns declared by the headers.
+ */
+function parseColumns(headers: string[], codecs: Codecs = {}): Column[] {
+  if (!headers || headers.length === 0) return [];
+
+  return headers.map(h => {
+    let [, type, name, optional] = h.match(/^(?:([^:]+):)?(.*?)(\?)?$/)!;
+
+    name = name.trim();
+    checkHeaderName(name);
+
+    let codec =
+      codecs[name] ??
+      (type !== undefined ? resolveCodec(type, codecs) : undefined);
+
+    if (type !== undefined && !codec) {
+      throw new Error(`Invalid header: "${h}". Unknown type prefix "${type}".`);
+    }
+
+    return { name, type, codec, optional: optional === "?" };
+  });
+}
+
+/**
+ * Function to parse a schema into columns.
+ * @param schema The definitions of the columns, by name.
+ * @returns The columns declared by the schema, in the order of its keys.
+ */
+function parseSchema(schema: Schema): Column[] {
+  return Object.keys(schema).map(name => {
+    let def = schema[name];
+    let codec =
+      typeof def.type === "string" ? schemaCodecs[def.type] : def.type;
+
+    checkHeaderName(name);
+
+    if (!codec) {
+      throw new Error(
+        `Invalid schema: unknown type "${def.type}" for column "${name}".`
+      );
+    }
+
+    return {
+      name,
+      codec: constrain(codec, def),
+      optional: def.optional ?? false,
+      nullable: def.nullable ?? false,
+      default: def.default
+    };
+  });
+}
+
+/**
+ * Function to check that a header name isn't empty.
+ * Any other name is allowed, like `First Name` or `Prix (€)`.
+ * @private
+ */
+function checkHeaderName(name: string): void {
+  if (name === "") {
+    throw new Error(`Invalid header: the name of a column can't be empty.`);
   }
+}
+
+/**
+ * Function to get the keys of the entries from the names in the header row of a file.
+ * Repeated keys get a suffix with their count, like `name_2`, so that no column is lost.
+ * @param names The names in the header row.
+ * @param mapping An object or a function mapping the names to keys, names it doesn't map are kept.
+ * @returns The keys, one for each name.
+ */
+function mapHeaders(names: string[], mapping?: HeaderMapping): string[] {
+  let keys = new Set<string>();
+
+  return names.map((name, i) => {
+    let key =
+      typeof mapping === "function"
+        ? mapping(name, i)
+        : mapping && Object.prototype.hasOwnProperty.call(mapping, name)
+        ? mapping[name]
+        : name;
+    let unique = key;
+
+    for (let n = 2; keys.has(unique); n++) unique = `${key}_${n}`;
+    keys.add(unique);
 
-  return v;
+    return unique;
+  });
+}
+
+/**
+ * Function to get the codec of a type prefix.
+ * @private
+ */
+function resolveCodec(type: string, codecs: Codecs): Codec<any> | undefined {
+  if (codecs[type]) return codecs[type];
+  if (type in builtins) return builtins[type as Prefix];
+
+  let values = type.match(/^e\((.*)\)$/);
+  if (values) return enumeration(values[1].split("|"));
+}
+
+/**
+ * Function to strip the headers of any prefixes or suffixes used for typing.
+ * @param headers The array of headers to use when parsing the CSV file.
+ * @returns The names of the headers.
+ */
+function stripHeaders<T extends string>(headers: T[], codecs?: Codecs): T[] {
+  return parseColumns(headers, codecs).map(c => c.name) as T[];
+}
+
+/**
+ * Function to check whether a required column accepts null values.
+ * @private
+ */
+function isNullable(column: Column): boolean {
+  return column.nullable ?? !column.codec;
+}
+
+/**
+ * Function to get the value of a field according to the codec of its column.
+ * Columns without a codec infer the type from the value, like `parseValue`.
+ * @param field The field to parse, undefined if the row has no value for the column.
+ * @param column The column of the field.
+ * @param opts.row The index of the row, used in errors.
+ * @throws ValidationError if the value is missing from a required column, or can't be parsed by the codec.
+ */
+function parseColumnValue(
+  field: Field | undefined,
+  column: Column,
+  opts: { row?: number } = {}
+): unknown {
+  if (!field) {
+    if (!column.optional) {
+      throw invalid("missing required value.", field, column, opts);
+    }
+
+    return null;
+  }
+
+  let value = field.quoted ? field.value : field.value.trim();
+  let isNull =
+    !field.quoted &&
+    (value === "" || (value.length === 4 && value.toLowerCase() === "null"));
+
+  if (isNull) {
+    if (!column.optional && !isNullable(column)) {
+      throw invalid("missing required value.", field, column, opts);
+    }
+
+    return null;
+  }
+
+  if (!column.codec) return field.quoted ? value : parseValue(value);
+
+  try {
+    return column.codec.parse(value);
+  } catch (err) {
+    throw invalid((err as Error).message, field, column, opts);
+  }
+}
+
+/**
+ * Function to create the error for an invalid field.
+ * @private
+ */
+function invalid(
+  message: string,
+  field: Field | undefined,
+  column: Column,
+  opts: { row?: number }
+): ValidationError {
+  return new ValidationError(message, {
+    row: opts.row,
+    column: column.name,
+    value: field?.value
+  });
+}
+
+/**
+ * Function to serialize the value of an entry for each column, checking that the entry matches the columns.
+ * Required columns must be present or have a default value, and can be null only if they are nullable.
+ * @param entry The entry to serialize.
+ * @param columns The columns of the CSV file.
+ * @param opts.row The index of the entry, used in errors.
+ * @returns The serialized values, in the order of the columns.
+ * @throws ValidationError if the entry doesn't match the columns.
+ */
+function serializeEntry(
+  entry: Record<string, unknown>,
+  columns: Column[],
+  opts: SerializeOptions & { row?: number } = {}
+): string[] {
+  return columns.map(column => {
+    let v = entry[column.name];
+    let error = (message: string) =>
+      new ValidationError(message, {
+        row: opts.row,
+        column: column.name,
+        value: v
+      });
+
+    if (v === undefined && column.default !== undefined) {
+      v =
+        typeof column.default === "function"
+          ? column.default()
+          : column.default;
+    }
+
+    if (v === undefined || v === null) {
+      if (!column.optional && (v === undefined || !isNullable(column))) {
+        throw error("missing required value.");
+      }
+
+      return serializeValue(null, opts);
+    }
+
+    if (!column.codec) return serializeValue(v as Value, opts);
+
+    let s: string;
+
+    try {
+      s = column.codec.serialize(v);
+    } catch (err) {
+      throw error((err as Error).message);
+    }
+
+    // The type of the value is known when reading, it must be quoted only if it could be read as null.
+    return serializeField(s, opts, {
+      numeric: ["number", "bigint", "boolean"].includes(typeof v),
+      ambiguous: s.trim() !== s || ["", "null"].includes(s.toLowerCase())
+    });
+  });
+}
+
+/**
+ * Function to check that an entry matches the columns, before writing it.
+ * Required columns must be present or have a default value, and can be null only if they are nullable.
+ * @param entry The entry to check.
+ * @param columns The columns of the CSV file.
+ * @param opts.row The index of the entry, used in errors.
+ * @throws ValidationError if the entry doesn't match the columns.
+ */
+function validateEntry(
+  entry: Record<string, unknown>,
+  columns: Column[],
+  opts: { row?: number } = {}
+): void {
+  serializeEntry(entry, columns, { row: opts.row, quoting: "all" });
 }
 
 function parseHeaders(line: string, opts: ParseOptions = {}): string[] {
-  const delimiter = opts.delimiter ?? ",";
-  return line.split(delimiter).map(header => header.trim());
+  return tokenize(line, opts).map(header => header.value.trim());
 }
 
 interface ParseRowOptions {
   delimiter?: string;
+  quote?: string;
   headers?: string[];
+  columns?: Column[];
+  row?: number;
 }
 
 function parseRow<T extends string>(
   line: string,
-  opts: { delimiter?: string; headers: T[] }
+  opts: { delimiter?: string; quote?: string; headers: T[] }
 ): Record<string, Value>;
 
-function parseRow(line: string, opts?: { delimiter?: string }): Value[];
+function parseRow(
+  line: string,
+  opts: { delimiter?: string; quote?: string; columns: Column[]; row?: number }
+): Record<string, unknown>;
+
+function parseRow(
+  line: string,
+  opts?: { delimiter?: string; quote?: string }
+): Value[];
 
 function parseRow(
   line: string,
   opts: ParseRowOptions = {}
-): Record<string, Value> | Value[] {
-  const delimiter = opts.delimiter ?? ",";
+): Record<string, unknown> | Value[] {
   const headers = opts.headers ?? [];
   const l = headers.length;
 
-  let parsed = line.match(/(".*?"|[^",\s]+)(?=\s*,|\s*$)/g)!;
-  let row = {} as Record<string, Value>;
+  let fields = tokenize(line, opts);
+  let row = {} as Record<string, unknown>;
 
-  if (l > 0) {
-    for (let i = 0; i < l; i++) {
-      let [h, v] = [headers[i], parsed[i]];
+  if (opts.columns) {
+    let columns = opts.columns;
 
-      if (v.startsWith('"') && v.endsWith('"')) {
-        v = v.substring(1, v.length - 1);
-      }
+    for (let i = 0; i < columns.length; i++) {
+      row[columns[i].name] = parseColumnValue(fields[i], columns[i], opts);
+    }
 
-      row[h] = parseValue(v);
+    return row;
+  } else if (l > 0) {
+    for (let i = 0; i < l; i++) {
+      row[headers[i]] = parseField(fields[i]);
     }
 
     return row;
   } else {
-    return parsed.map(parseValue);
+    return fields.map(parseField);
   }
 }
 
+interface SerializeOptions {
+  delimiter?: string;
+  quote?: string;
+  quoting?: Quoting;
+}
+
+/**
+ * Function to serialize a single value, quoting and escaping it if needed.
+ * Null and undefined values are written as `null`.
+ * @param v The value to serialize.
+ * @param opts.quoting When to quote the value, defaults to `minimal`.
+ * @returns The value as it should be written in the CSV file.
+ */
+function serializeValue(
+  v: Value | undefined,
+  opts: SerializeOptions = {}
+): string {
+  if (v === null || v === undefined) return "null";
+
+  let s = v.toString();
+
+  return serializeField(s, opts, {
+    numeric: typeof v !== "string",
+    ambiguous: typeof v === "string" && parseValue(s) !== s
+  });
+}
+
+/**
+ * Function to quote and escape a serialized value according to the quoting policy.
+ * @param s The serialized value.
+ * @param flags.numeric Whether the value is a number or a boolean, which are not quoted by `non-numeric`.
+ * @param flags.ambiguous Whether the value would be read differently if it's not quoted.
+ * @private
+ */
+function serializeField(
+  s: string,
+  opts: SerializeOptions,
+  flags: { numeric: boolean; ambiguous: boolean }
+): string {
+  const delimiter = opts.delimiter ?? ",";
+  const quote = opts.quote ?? '"';
+  const quoting = opts.quoting ?? "minimal";
+
+  let special =
+    s.includes(delimiter) ||
+    (quote !== "" && s.includes(quote)) ||
+    s.includes("\n") ||
+    s.includes("\r");
+
+  let quoted: boolean;
+
+  switch (quoting) {
+    case "all":
+      quoted = true;
+      break;
+    case "non-numeric":
+      quoted = !flags.numeric;
+      break;
+    case "none":
+      if (special) {
+        throw new Error(
+          `Invalid value: "${s}". Values containing the delimiter, quotes or line breaks can't be written with quoting "none".`
+        );
+      }
+
+      quoted = false;
+      break;
+    default:
+      quoted = special || flags.ambiguous;
+  }
+
+  if (!quoted) return s;
+  if (quote === "") {
+    throw new Error(
+      `Invalid value: "${s}". It must be quoted, but no quote character is set.`
+    );
+  }
+
+  return quote + s.split(quote).join(quote + quote) + quote;
+}
+
+/**
+ * Function to write a field back as it was read, quoting it only if it was quoted or it must be.
+ * The value isn't parsed, so numbers and dates are written the same way.
+ * @param field The field, as returned by `tokenize`.
+ * @returns The field as it should be written in the CSV file.
+ */
+function serializeToken(field: Field, opts: SerializeOptions = {}): string {
+  return serializeField(
+    field.value,
+    { ...opts, quoting: "minimal" },
+    { numeric: false, ambiguous: field.quoted }
+  );
+}
+
 /**
  * Function to get the values in a row for each header.
  * @param headers The headers to get values for.
  * @param entry The entry to get values from.
- * @returns The value in the row of the entry for each header.
+ * @returns The serialized value in the row of the entry for each header.
  */
 function getRowValuesFromHeaders(
   headers: string[],
-  entry: Record<string, Value>,
-  opts: ParseOptions = {}
-): Value[] {
-  const delimiter = opts.delimiter ?? ",";
-
-  return headers.map(h =>
-    entry[h] !== null
-      ? entry[h]?.toString().includes(delimiter)
-        ? `"${entry[h]}"`
-        : entry[h]
-      : "null"
-  );
+  entry: Record<string, Value | undefined>,
+  opts: SerializeOptions = {}
+): string[] {
+  return headers.map(h => serializeValue(entry[h], opts));
 }
 
 const parser = {
+  tokenize,
+  isRecordComplete,
   parseValue,
+  parseColumns,
+  parseSchema,
+  stripHeaders,
   parseHeaders,
+  mapHeaders,
+  parseColumnValue,
   parseRow,
+  validateEntry,
+  serializeValue,
+  serializeEntry,
+  serializeToken,
   getRowValuesFromHeaders
 };
 
-export { parser };
+export { parser, type Field };
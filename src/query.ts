@@ -0,0 +1,319 @@
+import { keyOf } from "./lib/offsets";
+import { compare, comparator, Direction, SortKey } from "./lib/compare";
+
+/**
+ * An aggregate computed for each group by `groupBy`:
+ * `count` counts the entries, `sum` and `avg` add the numbers of a column, `min` and `max` compare its values.
+ */
+type Aggregate<E> =
+  | "count"
+  | readonly ["sum" | "avg", keyof E]
+  | readonly ["min" | "max", keyof E];
+
+type AggregateValue<E, A> = A extends "count"
+  ? number
+  : A extends readonly ["sum" | "avg", unknown]
+  ? number
+  : A extends readonly ["min" | "max", infer K extends keyof E]
+  ? NonNullable<E[K]> | null
+  : never;
+
+type Grouped<E, K extends keyof E, A> = Pick<E, K> & {
+  [N in keyof A]: AggregateValue<E, A[N]>;
+};
+
+/**
+ * A step of a query, the entries change type from one to the next.
+ */
+type Stage =
+  | { kind: "order"; keys: SortKey<unknown>[] }
+  | {
+      kind: "pipe";
+      run(input: AsyncIterable<unknown>): AsyncIterable<unknown>;
+    };
+
+/**
+ * A lazy query on the entries of a CSV file, created by `csv.query()`.
+ * Every method returns a new query, and nothing is read until the query is run
+ * by `toArray`, `first`, `count` or iterating over it.
+ * Filters, projections, `distinct`, `offset` and `limit` are applied while reading the file,
+ * which is closed as soon as the limit is reached; `orderBy` and `groupBy` need all the entries they receive.
+ * @example
+ * let names = await csv
+ *   .query()
+ *   .where(x => x.age >= 18)
+ *   .orderBy("age", "desc")
+ *   .select("name")
+ *   .limit(10)
+ *   .toArray();
+ */
+class Query<E> implements AsyncIterable<E> {
+  private source: () => AsyncIterable<unknown>;
+  private stages: Stage[];
+
+  public constructor(source: () => AsyncIterable<E>, stages: Stage[] = []) {
+    this.source = source;
+    this.stages = stages;
+  }
+
+  /**
+   * Function to create a query on the same source with other stages, whose entries are of type `R`.
+   * @private
+   */
+  private withStages<R>(stages: Stage[]): Query<R> {
+    return new Query(this.source as () => AsyncIterable<R>, stages);
+  }
+
+  /**
+   * Function to create a query with another stage.
+   * @private
+   */
+  private pipe<R>(
+    run: (input: AsyncIterable<E>) => AsyncIterable<R>
+  ): Query<R> {
+    return this.withStages([...this.stages, { kind: "pipe", run }]);
+  }
+
+  /**
+   * Function to keep only the entries that match a predicate.
+   * @param fn A function that returns true if the entry should be kept.
+   */
+  public where(fn: (x: E) => boolean): Query<E> {
+    return this.pipe(async function* (input) {
+      for await (let x of input) if (fn(x)) yield x;
+    });
+  }
+
+  /**
+   * Function to keep only some columns of the entries.
+   * @param columns The columns to keep.
+   */
+  public select<K extends keyof E>(...columns: K[]): Query<Pick<E, K>> {
+    return this.pipe(async function* (input) {
+      for await (let x of input) {
+        let picked = {} as Pick<E, K>;
+        for (let column of columns) picked[column] = x[column];
+        yield picked;
+      }
+    });
+  }
+
+  /**
+   * Function to sort the entries by a column, or by the result of a function.
+   * Calling it again sorts the entries with the same value by another column.
+   * @param by The column, or a function that returns the value to sort by.
+   * @param direction `asc` (the default) or `desc`, null values are always last.
+   */
+  public orderBy(
+    by: keyof E | ((x: E) => unknown),
+    direction: Direction = "asc"
+  ): Query<E> {
+    let last = this.stages[this.stages.length - 1];
+    let key = { by, direction } as SortKey<unknown>;
+
+    if (last?.kind === "order") {
+      return this.withStages([
+        ...this.stages.slice(0, -1),
+        { kind: "order", keys: [...last.keys, key] }
+      ]);
+    }
+
+    return this.withStages([...this.stages, { kind: "order", keys: [key] }]);
+  }
+
+  /**
+   * Function to skip the first entries.
+   * @param n The number of entries to skip.
+   */
+  public offset(n: number): Query<E> {
+    return this.pipe(async function* (input) {
+      let i = 0;
+      for await (let x of input) if (i++ >= n) yield x;
+    });
+  }
+
+  /**
+   * Function to keep only the first entries, the file is closed as soon as they are read.
+   * @param n The maximum number of entries.
+   */
+  public limit(n: number): Query<E> {
+    return this.pipe(async function* (input) {
+      if (n <= 0) return;
+
+      let i = 0;
+
+      for await (let x of input) {
+        yield x;
+        if (++i >= n) return;
+      }
+    });
+  }
+
+  /**
+   * Function to remove the entries that are equal to a previous one, in all their values.
+   */
+  public distinct(): Query<E> {
+    return this.pipe(async function* (input) {
+      let seen = new Set<string>();
+
+      for await (let x of input) {
+        let key = Object.values(x as object)
+          .map(keyOf)
+          .join("\0");
+        if (seen.has(key)) continue;
+
+        seen.add(key);
+        yield x;
+      }
+    });
+  }
+
+  /**
+   * Function to group the entries with the same values in some columns,
+   * and compute aggregates for each group. The groups are in the order they first appear.
+   * @param columns The column, or columns, to group by.
+   * @param aggregates The aggregates to compute, by name.
+   * @example
+   * csv.query().groupBy("city", { people: "count", age: ["avg", "age"] });
+   * // -> [{ city: "Rome", people: 2, age: 31.5 }, ...]
+   */
+  public groupBy<
+    K extends keyof E,
+    const A extends Record<string, Aggregate<E>> = {}
+  >(columns: K | K[], aggregates?: A): Query<Grouped<E, K, A>> {
+    let keys = Array.isArray(columns) ? columns : [columns];
+    let specs = Object.entries(aggregates ?? {}) as [string, Aggregate<E>][];
+
+    return this.pipe(async function* (input) {
+      let groups = new Map<
+        string,
+        {
+          row: Record<PropertyKey, unknown>;
+          counts: Map<string, number>;
+          values: Map<string, unknown>;
+        }
+      >();
+
+      for await (let x of input) {
+        let id = keys.map(key => keyOf(x[key])).join("\0");
+        let group = groups.get(id);
+
+        if (!group) {
+          let row: Record<PropertyKey, unknown> = {};
+          for (let key of keys) row[key] = x[key];
+
+          group = { row, counts: new Map(), values: new Map() };
+          groups.set(id, group);
+        }
+
+        for (let [name, spec] of specs) {
+          let { counts, values } = group;
+
+          if (spec === "count") {
+            values.set(
+              name,
+              ((values.get(name) as number | undefined) ?? 0) + 1
+            );
+            continue;
+          }
+
+          let [fn, column] = spec;
+          let value = x[column];
+
+          if (fn === "sum" || fn === "avg") {
+            if (typeof value !== "number") continue;
+
+            values.set(
+              name,
+              ((values.get(name) as number | undefined) ?? 0) + value
+            );
+            counts.set(name, (counts.get(name) ?? 0) + 1);
+          } else if (value !== null && value !== undefined) {
+            let current = values.get(name);
+            let order = fn === "min" ? -1 : 1;
+
+            if (current === undefined || compare(value, current) === order) {
+              values.set(name, value);
+            }
+          }
+        }
+      }
+
+      for (let { row, counts, values } of groups.values()) {
+        for (let [name, spec] of specs) {
+          let value = values.get(name);
+
+          if (spec === "count") row[name] = value ?? 0;
+          else if (spec[0] === "sum") row[name] = value ?? 0;
+          else if (spec[0] === "avg") {
+            let count = counts.get(name);
+            row[name] = count ? (value as number) / count : null;
+          } else row[name] = value ?? null;
+        }
+
+        yield row as Grouped<E, K, A>;
+      }
+    });
+  }
+
+  /**
+   * Function to run the query.
+   * @private
+   */
+  private run(): AsyncIterable<E> {
+    let output = this.source();
+
+    for (let stage of this.stages) {
+      if (stage.kind === "pipe") {
+        output = stage.run(output);
+        continue;
+      }
+
+      let input = output;
+      let sort = comparator(stage.keys);
+
+      output = (async function* () {
+        let entries: unknown[] = [];
+        for await (let x of input) entries.push(x);
+
+        yield* entries.sort(sort);
+      })();
+    }
+
+    return output as AsyncIterable<E>;
+  }
+
+  public [Symbol.asyncIterator](): AsyncIterator<E> {
+    return this.run()[Symbol.asyncIterator]();
+  }
+
+  /**
+   * Function to run the query and get its results.
+   * @returns A promise with the entries.
+   */
+  public async toArray(): Promise<E[]> {
+    let entries: E[] = [];
+    for await (let x of this.run()) entries.push(x);
+    return entries;
+  }
+
+  /**
+   * Function to run the query and get its first result, it stops reading the file as soon as it's found.
+   * @returns A promise with the entry, or undefined if there are none.
+   */
+  public async first(): Promise<E | undefined> {
+    for await (let x of this.run()) return x;
+  }
+
+  /**
+   * Function to run the query and count its results.
+   * @returns A promise with the number of entries.
+   */
+  public async count(): Promise<number> {
+    let count = 0;
+    for await (let _ of this.run()) count++;
+    return count;
+  }
+}
+
+export { Query, type Aggregate, type Direction };
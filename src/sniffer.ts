@@ -0,0 +1,197 @@
+import { Field, parser } from "./parser";
+import { Dialect, Encoding } from "./types";
+import { detectEncoding, decodeSample, hasByteOrderMark } from "./lib/encoding";
+import { recordReader } from "./lib/records";
+
+interface SniffOptions {
+  /**
+   * The delimiters to choose from, defaults to `,`, `;`, tab and `|`.
+   */
+  delimiters?: string[];
+
+  /**
+   * The quote characters to choose from, defaults to `"` and `'`.
+   */
+  quotes?: string[];
+
+  /**
+   * The maximum number of records to look at.
+   */
+  limit?: number;
+
+  /**
+   * The encoding of the sample, if known.
+   */
+  encoding?: Encoding;
+
+  /**
+   * Whether the sample is the whole file, rather than its beginning, defaults to false.
+   */
+  complete?: boolean;
+}
+
+/**
+ * Function to escape a string to be used in a regular expression.
+ * @private
+ */
+function escape(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Function to split the sample into records, ignoring the last incomplete line.
+ * @private
+ */
+function sampleRecords(
+  text: string,
+  delimiter: string,
+  quote: string,
+  limit: number
+): Field[][] {
+  let reader = recordReader({ delimiter, quote });
+  let records = reader.push(text);
+  if (records.length === 0) records = reader.end();
+
+  return records
+    .filter(r => r !== "")
+    .slice(0, limit)
+    .map(r => parser.tokenize(r, { delimiter, quote }));
+}
+
+/**
+ * Function to find the quote character, as the one that most often opens and closes a field.
+ * @private
+ */
+function sniffQuote(text: string, delimiters: string[], quotes: string[]) {
+  let separators = delimiters.map(escape).join("|");
+  let best = { quote: quotes[0], count: 0 };
+
+  for (let quote of quotes) {
+    let q = escape(quote);
+    let pattern = new RegExp(
+      `(?:^|${separators})[ \\t]*${q}[^${q}]*${q}[ \\t]*(?=${separators}|\\r?$)`,
+      "gm"
+    );
+
+    let count = text.match(pattern)?.length ?? 0;
+    if (count > best.count) best = { quote, count };
+  }
+
+  return best.quote;
+}
+
+/**
+ * Function to find the delimiter, as the one that splits the records in the same number of fields most consistently.
+ * @private
+ */
+function sniffDelimiter(
+  text: string,
+  quote: string,
+  delimiters: string[],
+  limit: number
+) {
+  let best = { delimiter: delimiters[0], consistency: 0, fields: 0 };
+
+  for (let delimiter of delimiters) {
+    let records = sampleRecords(text, delimiter, quote, limit);
+    let counts = new Map<number, number>();
+
+    for (let record of records) {
+      counts.set(record.length, (counts.get(record.length) ?? 0) + 1);
+    }
+
+    for (let [fields, n] of counts) {
+      if (fields < 2) continue;
+
+      let consistency = n / records.length;
+
+      if (
+        consistency > best.consistency ||
+        (consistency === best.consistency && fields > best.fields)
+      ) {
+        best = { delimiter, consistency, fields };
+      }
+    }
+  }
+
+  return best.delimiter;
+}
+
+/**
+ * Function to guess whether the first record is a header.
+ * For each column whose values below are all of the same type, other than strings,
+ * the first value votes for a header if its type differs, and for data if it's the same.
+ * Among strings, a first value with another length than all the values below votes for a header,
+ * but the same length is no evidence, like `name` above `John` and `Jane`.
+ * The first record is a header unless the votes say otherwise.
+ * @private
+ */
+function sniffHeader(records: Field[][]): boolean {
+  if (records.length < 2) return true;
+
+  let [header, ...rows] = records;
+  let type = (f: Field) =>
+    f.quoted ? "string" : typeof parser.parseValue(f.value);
+  let votes = 0;
+
+  header.forEach((cell, i) => {
+    let values = rows
+      .map(row => row[i])
+      .filter(f => f !== undefined && f.value.trim() !== "");
+
+    if (values.length === 0) return;
+
+    let types = new Set(values.map(type));
+
+    if (types.size === 1 && !types.has("string")) {
+      votes += types.has(type(cell)) ? -1 : 1;
+      return;
+    }
+
+    let lengths = new Set(values.map(f => f.value.length));
+
+    if (lengths.size === 1 && !lengths.has(cell.value.length)) votes++;
+  });
+
+  return votes >= 0;
+}
+
+/**
+ * Function to detect the dialect of a CSV file from a sample of its first bytes:
+ * encoding and byte order mark, line ending, quote character, delimiter,
+ * and whether the first row is a header.
+ * @param sample The first bytes of the file, or its decoded text.
+ * @returns The detected dialect.
+ */
+function sniff(sample: Buffer | string, opts: SniffOptions = {}): Dialect {
+  const delimiters = opts.delimiters ?? [",", ";", "\t", "|"];
+  const quotes = opts.quotes ?? ['"', "'"];
+  const limit = opts.limit ?? 100;
+
+  let { encoding, bom } =
+    typeof sample === "string"
+      ? { encoding: "utf-8" as const, bom: sample.startsWith("\uFEFF") }
+      : opts.encoding
+      ? {
+          encoding: opts.encoding,
+          bom: hasByteOrderMark(sample, opts.encoding)
+        }
+      : detectEncoding(sample, opts.complete);
+
+  let text =
+    typeof sample === "string"
+      ? sample.replace(/^\uFEFF/, "")
+      : decodeSample(sample, encoding);
+
+  let newLine = text.indexOf("\n");
+  let lineEnding: Dialect["lineEnding"] =
+    newLine > 0 && text[newLine - 1] === "\r" ? "\r\n" : "\n";
+
+  let quote = sniffQuote(text, delimiters, quotes);
+  let delimiter = sniffDelimiter(text, quote, delimiters, limit);
+  let hasHeader = sniffHeader(sampleRecords(text, delimiter, quote, limit));
+
+  return { delimiter, quote, lineEnding, encoding, bom, hasHeader };
+}
+
+export { sniff, type SniffOptions };
@@ -0,0 +1,331 @@
+import fs from "fs";
+import { StorageAdapter, StorageReadOptions, StorageStat } from "./types";
+import { writeFileAtomic } from "./lib";
+import {
+  Algorithm,
+  compress,
+  compressSync,
+  decompress,
+  decompressSync
+} from "./lib/compression";
+
+/**
+ * Function to create the error thrown for a file that doesn't exist, like the one of `fs`.
+ * @private
+ */
+function notFound(path: string): NodeJS.ErrnoException {
+  return Object.assign(new Error(`ENOENT: no such file "${path}".`), {
+    code: "ENOENT",
+    path
+  });
+}
+
+/**
+ * The storage of files on the local file system, used by default.
+ */
+class FileStorage implements StorageAdapter {
+  public read(
+    path: string,
+    opts: StorageReadOptions = {}
+  ): AsyncIterable<Buffer> {
+    let { start = 0, end, signal } = opts;
+
+    if (end !== undefined && end <= start) return (async function* () {})();
+
+    // The end of a read stream is inclusive.
+    return fs.createReadStream(path, {
+      start,
+      end: end !== undefined ? end - 1 : undefined,
+      signal
+    });
+  }
+
+  public async append(path: string, chunks: Buffer[]): Promise<void> {
+    let writer = fs.createWriteStream(path, { flags: "a" });
+
+    await new Promise<void>((res, rej) => {
+      for (let chunk of chunks) writer.write(chunk);
+
+      writer.close();
+
+      writer.on("close", () => res());
+      writer.on("error", err => rej(err));
+    });
+  }
+
+  public replace(
+    path: string,
+    chunks: AsyncIterable<Buffer> | Iterable<Buffer>
+  ): Promise<void> {
+    return writeFileAtomic(path, chunks);
+  }
+
+  public async exists(path: string): Promise<boolean> {
+    return fs.promises.access(path).then(
+      () => true,
+      () => false
+    );
+  }
+
+  public stat(path: string): Promise<StorageStat> {
+    return fs.promises.stat(path);
+  }
+
+  public existsSync(path: string): boolean {
+    return fs.existsSync(path);
+  }
+
+  public readSync(path: string, start: number, end: number): Buffer {
+    let fd = fs.openSync(path, "r");
+    let buffer = Buffer.alloc(Math.max(end - start, 0));
+
+    try {
+      return buffer.subarray(
+        0,
+        fs.readSync(fd, buffer, 0, buffer.length, start)
+      );
+    } finally {
+      fs.closeSync(fd);
+    }
+  }
+
+  public replaceSync(path: string, data: Buffer): void {
+    fs.writeFileSync(path, data);
+  }
+}
+
+/**
+ * The storage of files in memory, lost when the process exits.
+ * Useful for tests, and for CSV text that doesn't come from a file.
+ * @example
+ * const storage = new MemoryStorage({ "users.csv": "id,name\n1,John" });
+ * const csv = new CSV({ path: "users.csv", storage });
+ */
+class MemoryStorage implements StorageAdapter {
+  private files: Map<string, { data: Buffer; version: number }>;
+  private changes: number;
+
+  /**
+   * @param files The initial files, by path. Text is encoded in UTF-8.
+   */
+  public constructor(files: Record<string, string | Buffer> = {}) {
+    this.files = new Map();
+    this.changes = 0;
+
+    for (let [path, data] of Object.entries(files)) {
+      this.set(path, typeof data === "string" ? Buffer.from(data) : data);
+    }
+  }
+
+  /**
+   * Function to replace the content of a file, and count the change as its modification time.
+   * @private
+   */
+  private set(path: string, data: Buffer): void {
+    this.files.set(path, { data, version: ++this.changes });
+  }
+
+  /**
+   * Function to get the content of a file, throwing if it doesn't exist.
+   * @private
+   */
+  private data(path: string): Buffer {
+    let file = this.files.get(path);
+    if (!file) throw notFound(path);
+
+    return file.data;
+  }
+
+  /**
+   * Function to get the content of a file.
+   * @returns The bytes of the file, or undefined if it doesn't exist.
+   */
+  public get(path: string): Buffer | undefined {
+    return this.files.get(path)?.data;
+  }
+
+  public async *read(
+    path: string,
+    opts: StorageReadOptions = {}
+  ): AsyncGenerator<Buffer, void, undefined> {
+    opts.signal?.throwIfAborted();
+    yield this.data(path).subarray(opts.start ?? 0, opts.end);
+  }
+
+  public async append(path: string, chunks: Buffer[]): Promise<void> {
+    this.set(
+      path,
+      Buffer.concat([this.get(path) ?? Buffer.alloc(0), ...chunks])
+    );
+  }
+
+  public async replace(
+    path: string,
+    chunks: AsyncIterable<Buffer> | Iterable<Buffer>
+  ): Promise<void> {
+    let data: Buffer[] = [];
+
+    // The file is replaced only once all the chunks are read, so a failure leaves it as it was.
+    for await (let chunk of chunks) data.push(chunk);
+
+    this.set(path, Buffer.concat(data));
+  }
+
+  public async exists(path: string): Promise<boolean> {
+    return this.existsSync(path);
+  }
+
+  public async stat(path: string): Promise<StorageStat> {
+    let data = this.data(path);
+    return { size: data.length, mtimeMs: this.files.get(path)!.version };
+  }
+
+  public existsSync(path: string): boolean {
+    return this.files.has(path);
+  }
+
+  public readSync(path: string, start: number, end: number): Buffer {
+    return this.data(path).subarray(start, end);
+  }
+
+  public replaceSync(path: string, data: Buffer): void {
+    this.set(path, data);
+  }
+}
+
+/**
+ * A storage that keeps its files compressed with gzip or brotli in another storage.
+ * A `CSV` wraps its storage in one when its file is compressed.
+ * Files are read and written decompressed: offsets and sizes are the ones of the decompressed bytes.
+ * It has the synchronous methods only if the other storage has all of them.
+ */
+class CompressedStorage implements StorageAdapter {
+  private storage: StorageAdapter;
+  private compression: Algorithm;
+  private sizes: Map<string, { stat: StorageStat; size: number }>;
+
+  public existsSync?: (path: string) => boolean;
+  public readSync?: (path: string, start: number, end: number) => Buffer;
+  public replaceSync?: (path: string, data: Buffer) => void;
+
+  /**
+   * @param storage Where the compressed files are kept.
+   * @param compression How the files are compressed.
+   */
+  public constructor(storage: StorageAdapter, compression: Algorithm) {
+    this.storage = storage;
+    this.compression = compression;
+    this.sizes = new Map();
+
+    let { existsSync, readSync, replaceSync } = storage;
+
+    if (existsSync && readSync && replaceSync) {
+      this.existsSync = path => existsSync!.call(storage, path);
+      this.readSync = (path, start, end) =>
+        this.headSync(path, end).subarray(start, end);
+      this.replaceSync = (path, data) => {
+        replaceSync!.call(storage, path, compressSync(data, compression));
+        this.sizes.delete(path);
+      };
+    }
+  }
+
+  /**
+   * Function to decompress the beginning of a file, reading more of it until it has enough bytes.
+   * @param end The number of decompressed bytes needed.
+   * @private
+   */
+  private headSync(path: string, end: number): Buffer {
+    let size = 64 * 1024;
+
+    while (true) {
+      let data = this.storage.readSync!(path, 0, size);
+      let complete = data.length < size;
+      let head = decompressSync(data, this.compression, !complete);
+
+      if (complete || head.length >= end) return head;
+      size *= 4;
+    }
+  }
+
+  public async *read(
+    path: string,
+    opts: StorageReadOptions = {}
+  ): AsyncGenerator<Buffer, void, undefined> {
+    let { start = 0, end = Infinity, signal } = opts;
+    let offset = 0;
+
+    if (end <= start) return;
+
+    // Compressed files can only be read from the beginning, the bytes before the start are skipped.
+    for await (let chunk of decompress(
+      this.storage.read(path, { signal }),
+      this.compression
+    )) {
+      let next = offset + chunk.length;
+
+      if (next > start) {
+        yield chunk.subarray(Math.max(start - offset, 0), end - offset);
+      }
+
+      offset = next;
+      if (offset >= end) return;
+    }
+  }
+
+  public async append(path: string, chunks: Buffer[]): Promise<void> {
+    let data = Buffer.concat(chunks);
+
+    if (data.length === 0) return;
+
+    this.sizes.delete(path);
+
+    // A gzip file can hold several members, read one after the other, so the new bytes are a member of their own.
+    if (this.compression === "gzip") {
+      return this.storage.append(path, [compressSync(data, "gzip")]);
+    }
+
+    let previous = (await this.storage.exists(path)) ? this.read(path) : [];
+
+    await this.replace(
+      path,
+      (async function* () {
+        yield* previous;
+        yield data;
+      })()
+    );
+  }
+
+  public async replace(
+    path: string,
+    chunks: AsyncIterable<Buffer> | Iterable<Buffer>
+  ): Promise<void> {
+    this.sizes.delete(path);
+    await this.storage.replace(path, compress(chunks, this.compression));
+  }
+
+  public exists(path: string): Promise<boolean> {
+    return this.storage.exists(path);
+  }
+
+  /**
+   * Function to get the size of the decompressed file, and the modification time of the compressed one.
+   * The size is computed by decompressing the whole file, once for each change of the compressed file.
+   */
+  public async stat(path: string): Promise<StorageStat> {
+    let { size, mtimeMs } = await this.storage.stat(path);
+    let cached = this.sizes.get(path);
+
+    if (cached?.stat.size !== size || cached.stat.mtimeMs !== mtimeMs) {
+      let decompressed = 0;
+      for await (let chunk of this.read(path)) decompressed += chunk.length;
+
+      cached = { stat: { size, mtimeMs }, size: decompressed };
+      this.sizes.set(path, cached);
+    }
+
+    return { size: cached.size, mtimeMs };
+  }
+}
+
+export { FileStorage, MemoryStorage, CompressedStorage };
@@ -0,0 +1,210 @@
+import { Transform } from "stream";
+import { parser } from "./parser";
+import { CodecsOf, Column, Encoding, Entry, Quoting } from "./types";
+import { recordReader } from "./lib/records";
+import { createDecoder } from "./lib/encoding";
+
+interface ParseStreamOptions<T extends string, C = {}> {
+  /**
+   * The delimiter that separates the values.
+   */
+  delimiter?: string;
+
+  /**
+   * The character used to quote values.
+   */
+  quote?: string;
+
+  /**
+   * The headers to use instead of the ones in the first row.
+   * The first row is still treated as the header row, and skipped.
+   */
+  headers?: T[];
+
+  /**
+   * The encoding of buffer chunks, defaults to `utf-8`.
+   * A byte order mark at the beginning of the input is skipped.
+   */
+  encoding?: Encoding;
+
+  /**
+   * Custom codecs to read values, by type prefix or by column name.
+   */
+  codecs?: CodecsOf<C>;
+}
+
+interface StringifyStreamOptions<T extends string, C = {}> {
+  /**
+   * The delimiter that separates the values.
+   */
+  delimiter?: string;
+
+  /**
+   * The character used to quote values.
+   */
+  quote?: string;
+
+  /**
+   * When values are quoted, defaults to `minimal`.
+   */
+  quoting?: Quoting;
+
+  /**
+   * The headers to write, if omitted they are taken from the keys of the first entry.
+   */
+  headers?: T[];
+
+  /**
+   * Custom codecs to write values, by type prefix or by column name.
+   */
+  codecs?: CodecsOf<C>;
+}
+
+/**
+ * Function to create a stream that parses CSV text into entries.
+ * It accepts buffers or strings of any size, records and multi-byte characters can be split across chunks.
+ * Values are coerced to the types declared in the headers, and the stream errors with a `ValidationError` if they don't match.
+ * @param opts.delimiter The delimiter that separates the values.
+ * @param opts.headers The headers to use instead of the ones in the first row.
+ * @returns A transform stream in object mode, that emits an entry for each row.
+ * @example
+ * await pipeline(
+ *   fs.createReadStream("file.csv.gz"),
+ *   zlib.createGunzip(),
+ *   createParseStream({ headers: ["s:name", "n:age"] }),
+ *   async function* (entries) { for await (let entry of entries) ... }
+ * );
+ */
+function createParseStream<T extends string, C = {}>(
+  opts: ParseStreamOptions<T, C> = {}
+): Transform {
+  const delimiter = opts.delimiter ?? ",";
+  const quote = opts.quote ?? '"';
+
+  let decoder = createDecoder(opts.encoding ?? "utf-8");
+  let reader = recordReader({ delimiter, quote });
+  let columns: Column[] | null = opts.headers
+    ? parser.parseColumns(opts.headers, opts.codecs)
+    : null;
+  let i = 0;
+
+  function push(stream: Transform, records: string[]) {
+    for (let record of records) {
+      if (i++ === 0) {
+        columns ??= parser
+          .mapHeaders(parser.parseHeaders(record, { delimiter, quote }))
+          .map(name => ({ name, optional: true }));
+      } else if (record !== "") {
+        stream.push(
+          parser.parseRow(record, {
+            delimiter,
+            quote,
+            columns: columns!,
+            row: i - 2
+          })
+        );
+      }
+    }
+  }
+
+  return new Transform({
+    readableObjectMode: true,
+
+    transform(chunk: Buffer | string, _, cb) {
+      try {
+        let text =
+          typeof chunk === "string"
+            ? chunk
+            : decoder.decode(chunk, { stream: true });
+        push(this, reader.push(text));
+        cb();
+      } catch (err) {
+        cb(err as Error);
+      }
+    },
+
+    flush(cb) {
+      try {
+        push(this, reader.push(decoder.decode()));
+        push(this, reader.end());
+        cb();
+      } catch (err) {
+        cb(err as Error);
+      }
+    }
+  });
+}
+
+/**
+ * Function to create a stream that writes entries as CSV text.
+ * The header row is written first, then a row for each entry.
+ * Entries are checked against the types declared in the headers, and the stream errors with a `ValidationError` if they don't match.
+ * @param opts.headers The headers to write, if omitted they are taken from the keys of the first entry.
+ * @param opts.quoting When values are quoted, defaults to `minimal`.
+ * @returns A transform stream that accepts entries and emits CSV text.
+ */
+function createStringifyStream<T extends string, C = {}>(
+  opts: StringifyStreamOptions<T, C> = {}
+): Transform {
+  const delimiter = opts.delimiter ?? ",";
+  const quote = opts.quote ?? '"';
+  const quoting = opts.quoting ?? "minimal";
+
+  let columns: Column[] | null = opts.headers
+    ? parser.parseColumns(opts.headers, opts.codecs)
+    : null;
+  let started = false;
+  let i = 0;
+
+  function start(stream: Transform, entry?: Entry<T, C>) {
+    columns ??= Object.keys(entry ?? {}).map(name => ({
+      name,
+      optional: true
+    }));
+
+    stream.push(
+      columns
+        .map(c =>
+          parser.serializeToken(
+            { value: c.name, quoted: false },
+            { delimiter, quote }
+          )
+        )
+        .join(delimiter)
+    );
+    started = true;
+  }
+
+  return new Transform({
+    writableObjectMode: true,
+
+    transform(entry: Entry<T, C>, _, cb) {
+      try {
+        if (!started) start(this, entry);
+
+        let values = parser.serializeEntry(entry, columns!, {
+          delimiter,
+          quote,
+          quoting,
+          row: i++
+        });
+
+        cb(null, "\n" + values.join(delimiter));
+      } catch (err) {
+        cb(err as Error);
+      }
+    },
+
+    flush(cb) {
+      if (!started && columns) start(this);
+      cb();
+    }
+  });
+}
+
+export {
+  createParseStream,
+  createStringifyStream,
+  type ParseStreamOptions,
+  type StringifyStreamOptions
+};
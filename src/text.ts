@@ -0,0 +1,278 @@
+import { parser } from "./parser";
+import { sniff } from "./sniffer";
+import { ValidationError } from "./errors";
+import {
+  CodecsOf,
+  Column,
+  Encoding,
+  EntryOf,
+  ErrorPolicy,
+  HeaderMapping,
+  LineEnding,
+  Quoting,
+  Schema,
+  Value
+} from "./types";
+import { recordReader } from "./lib/records";
+import { createDecoder } from "./lib/encoding";
+
+interface ParseOptions<T extends string, C = {}, S extends Schema = {}> {
+  /**
+   * The delimiter that separates the values.
+   * With `auto`, the delimiter, the quote character and the encoding are detected from the text.
+   */
+  delimiter?: string | "auto";
+
+  /**
+   * The character used to quote values.
+   */
+  quote?: string;
+
+  /**
+   * The encoding of a buffer, defaults to `utf-8`.
+   */
+  encoding?: Encoding;
+
+  /**
+   * The headers to use instead of the ones in the first row.
+   * The first row is still treated as the header row, and skipped.
+   */
+  headers?: T[];
+
+  /**
+   * Whether the text has a header row, defaults to true,
+   * or to what is sniffed from the text when the delimiter is `auto`.
+   * Without one and without headers or a schema, the rows are returned as arrays of values,
+   * unless it's sniffed: the columns are then named `column1`, `column2`... like in a CSV file.
+   */
+  hasHeader?: boolean;
+
+  /**
+   * How the names in the header row are turned into the keys of the entries, like `{ "First Name": "firstName" }`.
+   */
+  mapHeaders?: HeaderMapping;
+
+  /**
+   * The definitions of the columns, as an alternative to typed headers.
+   */
+  schema?: S;
+
+  /**
+   * Custom codecs to read values, by type prefix or by column name.
+   */
+  codecs?: CodecsOf<C>;
+
+  /**
+   * What to do with rows that don't match the types of the columns, defaults to `throw`.
+   * With `skip`, they are left out.
+   */
+  onError?: Exclude<ErrorPolicy, "collect">;
+}
+
+interface StringifyOptions<T extends string, C = {}, S extends Schema = {}> {
+  /**
+   * The delimiter that separates the values.
+   */
+  delimiter?: string;
+
+  /**
+   * The character used to quote values.
+   */
+  quote?: string;
+
+  /**
+   * When values are quoted, defaults to `minimal`.
+   */
+  quoting?: Quoting;
+
+  /**
+   * The line ending between rows, defaults to `\n`.
+   */
+  lineEnding?: LineEnding;
+
+  /**
+   * The headers to write, if omitted they are the keys of the entries, in the order they first appear.
+   */
+  headers?: T[];
+
+  /**
+   * Whether to write the header row, defaults to true.
+   */
+  hasHeader?: boolean;
+
+  /**
+   * The definitions of the columns, as an alternative to typed headers.
+   */
+  schema?: S;
+
+  /**
+   * Custom codecs to write values, by type prefix or by column name.
+   */
+  codecs?: CodecsOf<C>;
+}
+
+/**
+ * Function to get the columns declared by the headers or the schema of the options, if any.
+ * @private
+ */
+function columnsOf<C>(opts: {
+  headers?: string[];
+  schema?: Schema;
+  codecs?: CodecsOf<C>;
+}): Column[] | null {
+  if (opts.headers && opts.schema) {
+    throw new Error("Invalid options: pass either headers or a schema.");
+  }
+
+  if (opts.schema) return parser.parseSchema(opts.schema);
+  if (opts.headers) return parser.parseColumns(opts.headers, opts.codecs);
+
+  return null;
+}
+
+/**
+ * Function to parse CSV text into entries, without touching the file system.
+ * Values are coerced to the types declared in the headers or in the schema, like when reading a file.
+ * @param text The CSV text, with the header row, or its bytes.
+ * @param opts.delimiter The delimiter that separates the values, or `auto` to detect it.
+ * @param opts.headers The headers to use instead of the ones in the first row.
+ * @param opts.hasHeader Whether the text has a header row, defaults to true, or to what is sniffed.
+ * @returns The entries, one for each row, or arrays of values for text without a header row, headers or schema.
+ * @throws ValidationError if a value doesn't match the type of its column, unless `onError` is `skip`.
+ * @example
+ * let users = parse(await response.text(), { headers: ["n:id", "s:name", "n:age?"] });
+ * // -> [{ id: 1, name: "John", age: 30 }, ...]
+ */
+function parse(
+  text: string | Buffer,
+  opts: ParseOptions<string> & {
+    hasHeader: false;
+    headers?: undefined;
+    schema?: undefined;
+  }
+): Value[][];
+
+function parse<T extends string, C = {}, const S extends Schema = {}>(
+  text: string | Buffer,
+  opts?: ParseOptions<T, C, S>
+): EntryOf<T, C, S>[];
+
+function parse<T extends string, C = {}, const S extends Schema = {}>(
+  text: string | Buffer,
+  opts: ParseOptions<T, C, S> = {}
+): EntryOf<T, C, S>[] | Value[][] {
+  let dialect =
+    opts.delimiter === "auto"
+      ? sniff(text, { encoding: opts.encoding, complete: true })
+      : undefined;
+
+  const delimiter = dialect?.delimiter ?? opts.delimiter ?? ",";
+  const quote = opts.quote ?? dialect?.quote ?? '"';
+
+  if (typeof text !== "string") {
+    text = createDecoder(opts.encoding ?? dialect?.encoding ?? "utf-8").decode(
+      text
+    );
+  }
+
+  let reader = recordReader({ delimiter, quote });
+  let records = [...reader.push(text.replace(/^\uFEFF/, "")), ...reader.end()];
+  let columns = columnsOf(opts);
+  let header = opts.hasHeader ?? dialect?.hasHeader ?? true;
+
+  if (!header && opts.hasHeader === undefined && records.length > 0) {
+    columns ??= parser
+      .tokenize(records[0], { delimiter, quote })
+      .map((_, i) => ({ name: `column${i + 1}`, optional: true }));
+  }
+  let entries: EntryOf<T, C, S>[] = [];
+  let rows: Value[][] = [];
+
+  records.forEach((record, i) => {
+    if (i === 0 && header) {
+      columns ??= parser
+        .mapHeaders(
+          parser.parseHeaders(record, { delimiter, quote }),
+          opts.mapHeaders
+        )
+        .map(name => ({ name, optional: true }));
+      return;
+    }
+
+    if (record === "") return;
+    if (!columns) {
+      rows.push(parser.parseRow(record, { delimiter, quote }));
+      return;
+    }
+
+    try {
+      entries.push(
+        parser.parseRow(record, {
+          delimiter,
+          quote,
+          columns,
+          row: header ? i - 1 : i
+        }) as EntryOf<T, C, S>
+      );
+    } catch (err) {
+      if (!(err instanceof ValidationError) || opts.onError !== "skip") {
+        throw err;
+      }
+    }
+  });
+
+  return columns ? entries : rows;
+}
+
+/**
+ * Function to write entries as CSV text, without touching the file system.
+ * The header row is written first, then a row for each entry, without a line break at the end.
+ * Entries are checked against the types declared in the headers or in the schema, like when writing a file.
+ * @param entries The entries to write.
+ * @param opts.headers The headers to write, if omitted they are the keys of the entries.
+ * @param opts.quoting When values are quoted, defaults to `minimal`.
+ * @returns The CSV text.
+ * @throws ValidationError if an entry doesn't match the columns.
+ * @example
+ * let text = stringify([{ id: 1, name: "John" }], { headers: ["n:id", "s:name"] });
+ * // -> "id,name\n1,John"
+ */
+function stringify<T extends string, C = {}, const S extends Schema = {}>(
+  entries: Iterable<EntryOf<T, C, S>>,
+  opts: StringifyOptions<T, C, S> = {}
+): string {
+  const delimiter = opts.delimiter ?? ",";
+  const lineEnding = opts.lineEnding ?? "\n";
+
+  let list = [...entries] as Record<string, unknown>[];
+  let columns =
+    columnsOf(opts) ??
+    [...new Set(list.flatMap(entry => Object.keys(entry)))].map(name => ({
+      name,
+      optional: true
+    }));
+
+  let lines = list.map((entry, row) =>
+    parser
+      .serializeEntry(entry, columns, {
+        delimiter,
+        quote: opts.quote,
+        quoting: opts.quoting,
+        row
+      })
+      .join(delimiter)
+  );
+
+  let names = columns.map(c =>
+    parser.serializeToken(
+      { value: c.name, quoted: false },
+      { delimiter, quote: opts.quote }
+    )
+  );
+
+  if (opts.hasHeader === false) return lines.join(lineEnding);
+
+  return [names.join(delimiter), ...lines].join(lineEnding);
+}
+
+export { parse, stringify, type ParseOptions, type StringifyOptions };
@@ -0,0 +1,29 @@
+/**
+ * A pair of functions to read and write the values of a column.
+ */
+interface Codec<V> {
+  /**
+   * Function to parse the raw value of a field.
+   * It should throw an error if the value is invalid, its message is used in the `ValidationError`.
+   */
+  parse(raw: string): V;
+
+  /**
+   * Function to serialize a value before writing it.
+   * It should throw an error if the value is invalid, its message is used in the `ValidationError`.
+   */
+  serialize(value: V): string;
+}
+
+/**
+ * Codecs by type prefix or by column name.
+ */
+type Codecs = Record<string, Codec<any>>;
+
+/**
+ * Codecs for the value types in `C`, by type prefix or by column name.
+ * Used to infer the value types from the codecs passed in the options.
+ */
+type CodecsOf<C> = { [K in keyof C]: Codec<C[K]> };
+
+export { type Codec, type Codecs, type CodecsOf };
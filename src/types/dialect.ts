@@ -0,0 +1,38 @@
+/**
+ * When values are quoted while writing.
+ * - `minimal`: only values that would not be read back as they are (containing delimiters, quotes, line breaks, surrounding whitespace, or strings that look like numbers, booleans or null).
+ * - `all`: every value except null.
+ * - `non-numeric`: every value that isn't a number, a boolean or null.
+ * - `none`: never, values that need quoting throw an error.
+ */
+type Quoting = "minimal" | "all" | "non-numeric" | "none";
+
+/**
+ * The text encodings supported for CSV files.
+ * `latin1` is read and written as Windows-1252, the superset used by Excel.
+ */
+type Encoding = "utf-8" | "utf-16le" | "utf-16be" | "latin1";
+
+type LineEnding = "\n" | "\r\n";
+
+/**
+ * The format of a CSV file.
+ */
+interface Dialect {
+  delimiter: string;
+  quote: string;
+  lineEnding: LineEnding;
+  encoding: Encoding;
+
+  /**
+   * Whether the file starts with a byte order mark.
+   */
+  bom: boolean;
+
+  /**
+   * Whether the first row of the file is a header row.
+   */
+  hasHeader: boolean;
+}
+
+export { type Quoting, type Encoding, type LineEnding, type Dialect };
@@ -1,40 +1,45 @@
 type Value = number | boolean | string | null;
-type Prefix = "n" | "b" | "s";
+type Json = string | number | boolean | null | Json[] | { [key: string]: Json };
+type Prefix = "n" | "b" | "s" | "d" | "i" | "j";
 
-type StripPrefix<T extends string> = T extends `${Prefix}:${infer P}?`
-  ? P
-  : T extends `${Prefix}:${infer P}`
-  ? P
+type Split<T extends string> = T extends `${infer H}|${infer R}`
+  ? H | Split<R>
   : T;
 
+type StripPrefix<T extends string> = T extends `${string}:${infer P}` ? P : T;
 type StripSuffix<T extends string> = T extends `${infer P}?` ? P : T;
 type OptionalKeys<T extends string> = T extends `${infer P}?` ? P : never;
 type RequiredKeys<T extends string> = T extends `${infer _}?` ? never : T;
+type Name<T extends string> = StripSuffix<StripPrefix<T>>;
 
-type Entry<T extends string> = {
-  [K in RequiredKeys<T> as StripSuffix<
-    StripPrefix<K>
-  >]: K extends `${infer P}:${infer _}`
-    ? P extends "n"
-      ? number
-      : P extends "b"
-      ? boolean
-      : P extends "s"
-      ? string
-      : Value
-    : Value;
+type PrefixValue<P extends string, C> = P extends keyof C
+  ? C[P]
+  : P extends "n"
+  ? number
+  : P extends "b"
+  ? boolean
+  : P extends "s"
+  ? string
+  : P extends "d"
+  ? Date
+  : P extends "i"
+  ? bigint
+  : P extends "j"
+  ? Json
+  : P extends `e(${infer V})`
+  ? Split<V>
+  : Value;
+
+type ColumnValue<K extends string, C> = Name<K> extends keyof C
+  ? C[Name<K>]
+  : K extends `${infer P}:${string}`
+  ? PrefixValue<P, C>
+  : Value;
+
+type Entry<T extends string, C = {}> = {
+  [K in RequiredKeys<T> as Name<K>]: ColumnValue<K, C>;
 } & {
-  [K in OptionalKeys<T> as StripSuffix<
-    StripPrefix<K>
-  >]?: K extends `${infer P}:${infer _}`
-    ? P extends "n"
-      ? number
-      : P extends "b"
-      ? boolean
-      : P extends "s"
-      ? string
-      : Value
-    : Value;
+  [K in OptionalKeys<T> as Name<K>]?: ColumnValue<K, C>;
 };
 
-export { type Value, type Entry };
+export { type Value, type Json, type Prefix, type Entry };
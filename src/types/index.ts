@@ -1 +1,7 @@
+export * from "./codec";
+export * from "./dialect";
 export * from "./entry";
+export * from "./join";
+export * from "./schema";
+export * from "./profile";
+export * from "./storage";
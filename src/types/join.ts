@@ -0,0 +1,58 @@
+type JoinType = "inner" | "left" | "right" | "full";
+
+/**
+ * The column to join on, with the same name in both files, or a pair of columns.
+ */
+type JoinOn<L, R> = (keyof L & keyof R) | readonly [keyof L, keyof R];
+
+type Flatten<T> = { [K in keyof T]: T[K] };
+
+type Shared<O> = O extends readonly unknown[] ? never : O;
+
+/**
+ * The columns of one side of a join, without the shared key,
+ * with a suffix if the other side has a column with the same name, and nullable if the side may be missing.
+ */
+type Side<E, Other, K, Suffix extends string, Nullable extends boolean> = {
+  [P in keyof E as P extends K
+    ? never
+    : P extends keyof Other
+    ? `${P & string}${Suffix}`
+    : P]: Nullable extends true ? E[P] | null : E[P];
+};
+
+/**
+ * The type of the entries of a join between two files.
+ */
+type Joined<
+  L,
+  R,
+  O,
+  J extends JoinType,
+  X extends readonly [string, string]
+> = Flatten<
+  {
+    [P in Shared<O> & keyof L & keyof R]: J extends "inner" | "left"
+      ? L[P]
+      : J extends "right"
+      ? R[P]
+      : L[P] | R[P];
+  } & Side<L, R, Shared<O>, X[0], J extends "right" | "full" ? true : false> &
+    Side<R, L, Shared<O>, X[1], J extends "left" | "full" ? true : false>
+>;
+
+type KeysOf<U> = U extends unknown ? keyof U : never;
+
+/**
+ * The type of the entries of files stacked together, with every column of each file,
+ * null in the entries of the files that don't have it.
+ */
+type Stacked<U> = {
+  [K in KeysOf<U>]: U extends unknown
+    ? K extends keyof U
+      ? U[K]
+      : null
+    : never;
+};
+
+export { type JoinType, type JoinOn, type Joined, type Stacked };
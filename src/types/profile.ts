@@ -0,0 +1,99 @@
+import { Value } from "./entry";
+
+/**
+ * The type inferred for a column: `mixed` if its values have different types, `empty` if they are all null.
+ */
+type ProfileType = "number" | "boolean" | "date" | "string" | "mixed" | "empty";
+
+/**
+ * The statistics about a column of the CSV file.
+ */
+interface ColumnProfile {
+  /**
+   * The name of the column.
+   */
+  name: string;
+
+  /**
+   * The type of the values, inferred like by `parser.parseValue`, with ISO dates detected among the strings.
+   */
+  type: ProfileType;
+
+  /**
+   * The number of values that are not null.
+   */
+  count: number;
+
+  /**
+   * The number of null values, written as `null`, left empty or missing from the row.
+   */
+  nulls: number;
+
+  /**
+   * The number of empty strings, written as a quoted empty field.
+   */
+  empty: number;
+
+  /**
+   * The number of distinct values that are not null, approximate if `distinct: "approximate"` is passed.
+   */
+  distinct: number;
+
+  /**
+   * The smallest value of the inferred type, null if the column is `mixed` or `empty`.
+   */
+  min: Value | Date;
+
+  /**
+   * The largest value of the inferred type, null if the column is `mixed` or `empty`.
+   */
+  max: Value | Date;
+
+  /**
+   * The mean of the values of a `number` column, null for the other types.
+   */
+  mean: number | null;
+
+  /**
+   * The standard deviation of the values of a `number` column, null for the other types.
+   */
+  stddev: number | null;
+
+  /**
+   * The length of the longest value, as it's written in the file.
+   */
+  maxLength: number;
+
+  /**
+   * The first distinct values that are not null.
+   */
+  samples: Value[];
+
+  /**
+   * The typed header suggested for the column, e.g. `n:age?`.
+   * Columns of mixed types, or without values, are suggested as strings.
+   */
+  header: string;
+}
+
+/**
+ * The statistics about the columns of a CSV file.
+ */
+interface Profile {
+  /**
+   * The number of rows, without the header.
+   */
+  rows: number;
+
+  /**
+   * The statistics about each column, in the order of the headers.
+   */
+  columns: ColumnProfile[];
+
+  /**
+   * The typed headers suggested for the file, to pass as the `headers` option.
+   */
+  headers: string[];
+}
+
+export { type ProfileType, type ColumnProfile, type Profile };
@@ -0,0 +1,169 @@
+import { Codec } from "./codec";
+import { Entry, Json } from "./entry";
+
+/**
+ * A column of the CSV file, as declared in the headers or in the schema.
+ */
+interface Column {
+  /**
+   * The name of the column, without prefixes and suffixes.
+   */
+  name: string;
+
+  /**
+   * The type prefix declared in the header, e.g. `n` or `e(a|b)`.
+   */
+  type?: string;
+
+  /**
+   * The codec used to read and write the values, if the column has none the type of the values is inferred.
+   */
+  codec?: Codec<any>;
+
+  /**
+   * Whether the column was declared optional with the `?` suffix, or with `optional` in the schema.
+   */
+  optional: boolean;
+
+  /**
+   * Whether the value can be null even if the column is required.
+   * Columns without a codec can always be null.
+   */
+  nullable?: boolean;
+
+  /**
+   * The value written when the entry doesn't have one, or a function returning it.
+   */
+  default?: unknown;
+}
+
+/**
+ * What to do when a value doesn't match the type of its column.
+ * - `throw`: throw a `ValidationError`.
+ * - `skip`: skip the row.
+ * - `collect`: skip the row and collect the error, see `CSV.getErrors`.
+ */
+type ErrorPolicy = "throw" | "skip" | "collect";
+
+/**
+ * The types that can be used by name in a schema.
+ */
+interface SchemaTypes {
+  string: string;
+  number: number;
+  boolean: boolean;
+  date: Date;
+  bigint: bigint;
+  json: Json;
+}
+
+/**
+ * The definition of a column in a schema.
+ */
+interface ColumnDefinition<V = any> {
+  /**
+   * The type of the values, by name or as a custom codec.
+   */
+  type: keyof SchemaTypes | Codec<V>;
+
+  /**
+   * Whether the value can be omitted from the entry, in which case the default or null is written.
+   */
+  optional?: boolean;
+
+  /**
+   * Whether the value can be null.
+   */
+  nullable?: boolean;
+
+  /**
+   * The value written when the entry doesn't have one, or a function returning it.
+   */
+  default?: V | (() => V);
+
+  /**
+   * The allowed values.
+   */
+  enum?: readonly V[];
+
+  /**
+   * The minimum value of numbers, bigints and dates.
+   */
+  min?: number | bigint | Date;
+
+  /**
+   * The maximum value of numbers, bigints and dates.
+   */
+  max?: number | bigint | Date;
+
+  /**
+   * A pattern that strings must match.
+   */
+  pattern?: RegExp;
+
+  /**
+   * A custom check, returning false or an error message if the value is invalid.
+   */
+  validate?: (value: V) => boolean | string;
+}
+
+type Schema = Record<string, ColumnDefinition>;
+
+/**
+ * How the names in the header row of a file are turned into the keys of the entries,
+ * e.g. `{ "First Name": "firstName" }` or `name => camelCase(name)`.
+ * Names that are not mapped are kept as they are.
+ */
+type HeaderMapping =
+  | Record<string, string>
+  | ((name: string, position: number) => string);
+
+type DefinitionValue<D> = D extends { enum: readonly (infer E)[] }
+  ? E
+  : D extends { type: infer X }
+  ? X extends keyof SchemaTypes
+    ? SchemaTypes[X]
+    : X extends Codec<infer V>
+    ? V
+    : never
+  : never;
+
+type IsOptional<D> = D extends { optional: true } | { default: unknown }
+  ? true
+  : false;
+
+type ColumnValue<D> = D extends { nullable: true }
+  ? DefinitionValue<D> | null
+  : DefinitionValue<D>;
+
+/**
+ * The type of the entries of a schema.
+ * Columns that are optional or have a default value can be omitted.
+ */
+type SchemaEntry<S extends Schema> = {
+  -readonly [K in keyof S as IsOptional<S[K]> extends true
+    ? never
+    : K]: ColumnValue<S[K]>;
+} & {
+  -readonly [K in keyof S as IsOptional<S[K]> extends true
+    ? K
+    : never]?: ColumnValue<S[K]>;
+};
+
+/**
+ * The type of the entries of a CSV file, from its schema if it has one, otherwise from its headers.
+ */
+type EntryOf<T extends string, C, S extends Schema> = [keyof S] extends [never]
+  ? Entry<T, C>
+  : SchemaEntry<S>;
+
+export {
+  type Column,
+  type ErrorPolicy,
+  type SchemaTypes,
+  type ColumnDefinition,
+  type Schema,
+  type HeaderMapping,
+  type SchemaEntry,
+  type EntryOf
+};
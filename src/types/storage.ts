@@ -0,0 +1,91 @@
+/**
+ * How a file is compressed.
+ * - `gzip`: appending adds a gzip member at the end of the file, so appends don't read it again.
+ * - `brotli`: appending compresses the whole file again.
+ * - `none`: the file isn't compressed.
+ */
+type Compression = "gzip" | "brotli" | "none";
+
+/**
+ * The size and the modification time of a file in a storage.
+ */
+interface StorageStat {
+  size: number;
+
+  /**
+   * The time of the last change, or any number that changes whenever the file changes.
+   * It's used with the size to tell if the index of the rows is out of date.
+   */
+  mtimeMs: number;
+}
+
+interface StorageReadOptions {
+  /**
+   * The offset of the first byte to read, defaults to 0.
+   */
+  start?: number;
+
+  /**
+   * The offset after the last byte to read, defaults to the end of the file.
+   */
+  end?: number;
+
+  /**
+   * A signal to abort the reading.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Where the bytes of CSV files are kept, like the local file system or memory.
+ * The synchronous methods are optional: if a storage has all of them, a `CSV` reads the headers of its file in the constructor,
+ * otherwise it reads them in the background before its first operation.
+ */
+interface StorageAdapter {
+  /**
+   * Function to read the bytes of a file, in chunks.
+   * Breaking out of the iteration should release the resources used to read it.
+   */
+  read(path: string, opts?: StorageReadOptions): AsyncIterable<Buffer>;
+
+  /**
+   * Function to add bytes at the end of a file, creating it if it doesn't exist.
+   */
+  append(path: string, chunks: Buffer[]): Promise<void>;
+
+  /**
+   * Function to replace the content of a file, creating it if it doesn't exist.
+   * It must be atomic: if it fails, the file must be left as it was.
+   */
+  replace(
+    path: string,
+    chunks: AsyncIterable<Buffer> | Iterable<Buffer>
+  ): Promise<void>;
+
+  /**
+   * Function to check whether a file exists.
+   */
+  exists(path: string): Promise<boolean>;
+
+  /**
+   * Function to get the size and the modification time of a file.
+   * It should throw if the file doesn't exist.
+   */
+  stat(path: string): Promise<StorageStat>;
+
+  existsSync?(path: string): boolean;
+
+  /**
+   * Function to read the bytes of a file between two offsets.
+   */
+  readSync?(path: string, start: number, end: number): Buffer;
+
+  replaceSync?(path: string, data: Buffer): void;
+}
+
+export {
+  type Compression,
+  type StorageStat,
+  type StorageReadOptions,
+  type StorageAdapter
+};
@@ -0,0 +1,115 @@
+import { describe, test, expect, afterAll } from "vitest";
+import { writeFileSync, unlinkSync } from "fs";
+import { spawnSync } from "child_process";
+
+const path = "test/cli/people.csv";
+
+const cli = (args: string[], input?: string) => {
+  let { stdout, stderr, status } = spawnSync("node", ["dist/cli.js", ...args], {
+    input,
+    encoding: "utf-8",
+    timeout: 10000
+  });
+
+  return { stdout, stderr, status };
+};
+
+describe("cli", () => {
+  writeFileSync(
+    path,
+    'id;name;city;age\n1;John;Rome;30\n2;"Doe; Jane";Milan;25\n3;Jack;Rome;\n4;Jill;Turin;41'
+  );
+
+  test("head and count", () => {
+    expect(cli(["head", "-n", "1", path]).stdout).toBe(
+      "id;name;city;age\n1;John;Rome;30\n"
+    );
+    expect(cli(["count", path]).stdout).toBe("4\n");
+    expect(cli(["count"], "a,b\n1,2\n3,4").stdout).toBe("2\n");
+    expect(cli(["count", "-"], "").stdout).toBe("0\n");
+
+    // Values as long as the header don't make it a data row.
+    let names = "name,code\nJohn,ABCD\nJane,EFGH";
+
+    expect(cli(["count"], names).stdout).toBe("2\n");
+    expect(cli(["head"], names).stdout).toBe(names + "\n");
+    expect(cli(["select", "name"], names).stdout).toBe("name\nJohn\nJane\n");
+  });
+
+  test("select, filter and sort", () => {
+    expect(cli(["select", "age,name", "-o", ",", path]).stdout).toBe(
+      "age,name\n30,John\n25,Doe; Jane\nnull,Jack\n41,Jill\n"
+    );
+
+    expect(
+      cli(["filter", "age >= 30 or (city = Milan and not name ~ '^J')", path])
+        .stdout
+    ).toBe(
+      'id;name;city;age\n1;John;Rome;30\n2;"Doe; Jane";Milan;25\n4;Jill;Turin;41\n'
+    );
+    expect(cli(["filter", 'age = null or name = "Jill"', path]).stdout).toBe(
+      "id;name;city;age\n3;Jack;Rome;null\n4;Jill;Turin;41\n"
+    );
+
+    expect(cli(["sort", "city,age:desc", path]).stdout).toBe(
+      'id;name;city;age\n2;"Doe; Jane";Milan;25\n1;John;Rome;30\n3;Jack;Rome;null\n4;Jill;Turin;41\n'
+    );
+  });
+
+  test("convert", () => {
+    let ndjson = cli(["convert", "--to", "ndjson", path]).stdout;
+
+    expect(ndjson.split("\n")[1]).toBe(
+      '{"id":2,"name":"Doe; Jane","city":"Milan","age":25}'
+    );
+    expect(
+      JSON.parse(cli(["convert", "--to", "json", path]).stdout)
+    ).toHaveLength(4);
+    expect(cli(["convert", "--from", "ndjson", "-o", "|"], ndjson).stdout).toBe(
+      "id|name|city|age\n1|John|Rome|30\n2|Doe; Jane|Milan|25\n3|Jack|Rome|null\n4|Jill|Turin|41\n"
+    );
+  });
+
+  test("validate and stats", () => {
+    let valid = cli(["validate", "-H", "n:id,s:name,s:city,n:age?", path]);
+    expect([valid.status, valid.stdout]).toEqual([
+      0,
+      "4 valid rows, 0 errors\n"
+    ]);
+
+    let invalid = cli(["validate", "-H", "n:id,n:name,s:city,n:age?", path]);
+    expect(invalid.status).toBe(1);
+    expect(invalid.stdout.split("\n")).toHaveLength(6);
+
+    expect(cli(["stats", "-o", ",", path]).stdout).toBe(
+      [
+        "column,type,count,distinct,nulls,min,max,mean",
+        "id,number,4,4,0,1,4,2.5",
+        "name,string,4,4,0,Doe; Jane,John,null",
+        "city,string,4,3,0,Milan,Turin,null",
+        "age,number,3,3,1,25,41,32",
+        ""
+      ].join("\n")
+    );
+  });
+
+  test("errors", () => {
+    expect(cli(["bogus"]).status).toBe(2);
+    expect(cli(["select", "nope", path]).stderr).toMatch(
+      /Unknown column "nope"/
+    );
+    expect(cli(["filter", "age >=", path]).stderr).toMatch(/expected a value/);
+    expect(cli(["filter", "age > 1 & city = Rome", path]).stderr).toMatch(
+      /Invalid expression: unexpected "&" at 8/
+    );
+    expect(cli(["filter", "age > 1 | city = Rome", path]).stderr).toMatch(
+      /Invalid expression: unexpected "\|"/
+    );
+    expect(cli(["count", "missing.csv"]).stderr).toMatch(/No such file/);
+    expect(cli(["--help"]).stdout).toMatch(/^Usage: csv-rw/);
+  });
+
+  afterAll(() => {
+    unlinkSync(path);
+  });
+});
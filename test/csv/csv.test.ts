@@ -1,7 +1,33 @@
-import { existsSync, read, readFileSync, unlinkSync, writeFileSync } from "fs";
-import { CSV } from "../../dist";
-import { afterAll, describe, expect, test } from "vitest";
+import {
+  appendFileSync,
+  existsSync,
+  promises,
+  read,
+  readFileSync,
+  readdirSync,
+  unlinkSync,
+  utimesSync,
+  writeFileSync
+} from "fs";
+import {
+  CSV,
+  HeaderMismatchError,
+  LockError,
+  MemoryStorage,
+  parse,
+  StorageAdapter,
+  ValidationError
+} from "../../dist";
+import { afterAll, describe, expect, expectTypeOf, test, vi } from "vitest";
 import { randomUUID } from "crypto";
+import { spawnSync } from "child_process";
+import { tmpdir } from "os";
+import { Writable } from "stream";
+import { brotliDecompressSync, gunzipSync, gzipSync } from "zlib";
+
+type Entry<C> = C extends CSV<infer _, infer _>
+  ? Awaited<ReturnType<C["read"]>>[number]
+  : never;
 
 const rng = (min: number, max: number) =>
   Math.floor(Math.random() * (max - min + 1)) + min;
@@ -302,6 +328,1605 @@ describe("CSV", () => {
     await csv.toJson("test/csv/to-json.json");
 
     expect(await csv.read()).toEqual(entries);
+    expect(JSON.parse(readFileSync("test/csv/to-json.json", "utf-8"))).toEqual(
+      entries
+    );
+  });
+
+  test("json streams", async () => {
+    let records = [
+      { id: 1, name: "John", address: { city: "Rome" }, tags: ["a", "b"] },
+      { id: 2, name: 'Jane "J", Doe', admin: true },
+      { id: 3, name: "Jack", address: { city: "Milan", zip: "20100" } }
+    ];
+
+    // Chunks that split the records anywhere
+    let json = JSON.stringify(records, null, 2);
+    let chunks = (text: string) =>
+      Array.from({ length: Math.ceil(text.length / 7) }, (_, i) =>
+        Buffer.from(text.slice(i * 7, i * 7 + 7))
+      );
+
+    // Few records are kept in memory while their keys are collected
+    let mkdtemp = vi.spyOn(promises, "mkdtemp");
+
+    const csv = await CSV.fromJson(
+      (async function* () {
+        yield* chunks(json);
+      })(),
+      "test/csv/json.csv"
+    );
+
+    expect(mkdtemp).not.toHaveBeenCalled();
+
+    expect(csv.getHeaders()).toEqual([
+      "id",
+      "name",
+      "address.city",
+      "tags.0",
+      "tags.1",
+      "admin",
+      "address.zip"
+    ]);
+    expect(await csv.get(0)).toEqual({
+      id: 1,
+      name: "John",
+      "address.city": "Rome",
+      "tags.0": "a",
+      "tags.1": "b",
+      admin: null,
+      "address.zip": null
+    });
+
+    // More records than the run size are written to a temporary file
+    const spilled = await CSV.fromJson(json, "test/csv/json-spilled.csv", {
+      runSize: 1
+    });
+
+    expect(mkdtemp).toHaveBeenCalledTimes(1);
+    expect(spilled.getHeaders()).toEqual(csv.getHeaders());
+    expect(await spilled.read()).toEqual(await csv.read());
+    mkdtemp.mockRestore();
+
+    await csv.toJson("test/csv/json.ndjson", { format: "ndjson" });
+
+    let ndjson = readFileSync("test/csv/json.ndjson", "utf-8");
+    expect(
+      ndjson
+        .split("\n")
+        .slice(0, -1)
+        .map(l => JSON.parse(l))
+    ).toEqual([
+      { ...records[0], admin: null },
+      records[1],
+      { ...records[2], admin: null }
+    ]);
+
+    const typed = await CSV.fromJson(ndjson, "test/csv/json-typed.csv", {
+      headers: ["n:id", "s:address.city?", "d:date?"],
+      delimiter: ";"
+    });
+
+    expect(await typed.read()).toEqual([
+      { id: 1, "address.city": "Rome", date: null },
+      { id: 2, "address.city": null, date: null },
+      { id: 3, "address.city": "Milan", date: null }
+    ]);
+
+    await typed.write({ id: 4, date: new Date(Date.UTC(2024, 0, 1)) });
+
+    let output: string[] = [];
+    await typed.toJson(
+      new Writable({
+        write(chunk, _, done) {
+          output.push(chunk.toString());
+          done();
+        }
+      })
+    );
+
+    expect(JSON.parse(output.join(""))).toEqual([
+      { id: 1, address: { city: "Rome" }, date: null },
+      { id: 2, date: null },
+      { id: 3, address: { city: "Milan" }, date: null },
+      { id: 4, date: "2024-01-01T00:00:00.000Z" }
+    ]);
+
+    // Headers can't reach a prototype
+    let polluting: string[] = [];
+    await new CSV({
+      data: "__proto__.polluted,constructor.prototype.x,id\nyes,no,1"
+    }).toJson(
+      new Writable({
+        write(chunk, _, done) {
+          polluting.push(chunk.toString());
+          done();
+        }
+      })
+    );
+
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+    expect(JSON.parse(polluting.join(""))).toEqual([
+      { "__proto__.polluted": "yes", "constructor.prototype.x": "no", id: 1 }
+    ]);
+
+    // Keys are names as they are, not headers with a type prefix or a suffix
+    const keys = await CSV.fromJson(
+      '[{"time:start": "10:00", "done?": true, "a:b": 1}]',
+      "test/csv/json-keys.csv"
+    );
+
+    expect(keys.getHeaders()).toEqual(["time:start", "done?", "a:b"]);
+    expect(await keys.read()).toEqual([
+      { "time:start": "10:00", "done?": true, "a:b": 1 }
+    ]);
+    expect(readFileSync("test/csv/json-keys.csv", "utf-8")).toBe(
+      "time:start,done?,a:b\n10:00,true,1"
+    );
+    expect(new CSV({ path: "test/csv/json-keys.csv" }).getHeaders()).toEqual([
+      "time:start",
+      "done?",
+      "a:b"
+    ]);
+
+    await expect(
+      CSV.fromJson('{"id": 1}\n[1]\n2', "test/csv/json-typed.csv")
+    ).rejects.toThrow(/Records must be objects/);
+    await expect(
+      CSV.fromJson('[{"id": 1}, {"id"', "test/csv/json-typed.csv")
+    ).rejects.toThrow(/unexpected end/);
+  });
+
+  test("rows", async () => {
+    const csv = new CSV({
+      path: "test/csv/rows.csv",
+      headers: ["id", "name", "age"]
+    });
+
+    let entries = Array.from({ length: 10000 }, () => ({
+      id: randomUUID(),
+      name: randomUUID(),
+      age: Math.floor(Math.random() * 100)
+    }));
+
+    await csv.write(entries);
+
+    let rows = [];
+    for await (let entry of csv.rows()) rows.push(entry);
+
+    expect(rows).toEqual(entries);
+
+    let first = [];
+    for await (let entry of csv.rows()) {
+      first.push(entry);
+      if (first.length === 10) break;
+    }
+
+    expect(first).toEqual(entries.slice(0, 10));
+
+    let controller = new AbortController();
+    let read = 0;
+
+    await expect(async () => {
+      for await (let _ of csv.rows({ signal: controller.signal })) {
+        if (++read === 100) controller.abort();
+      }
+    }).rejects.toThrow(/abort/i);
+
+    expect(read).toBeLessThan(entries.length);
+
+    expect(await csv.findStream(x => x.id === entries[500].id)).toEqual(
+      entries[500]
+    );
+    expect(await csv.findStream(x => x.age === 200)).toBeUndefined();
+    expect(await csv.count()).toBe(entries.length);
+    expect(await csv.count(x => +x.age! < 50)).toBe(
+      entries.filter(x => x.age < 50).length
+    );
+
+    let filtered = [];
+    for await (let entry of csv.filterStream(x => +x.age! < 50)) {
+      filtered.push(entry);
+    }
+
+    expect(filtered).toEqual(entries.filter(x => x.age < 50));
+
+    let ids = [];
+    for await (let id of csv.mapStream(x => x.id)) ids.push(id);
+
+    expect(ids).toEqual(entries.map(x => x.id));
+  });
+
+  test("typed headers", async () => {
+    const csv = new CSV({
+      path: "test/csv/typed.csv",
+      headers: ["s:zip", "n:amount", "b:paid?", "note"],
+      deletePrevious: true
+    });
+
+    await csv.write([
+      { zip: "00123", amount: 10, paid: true, note: "ok" },
+      { zip: "true", amount: 2.5, note: null }
+    ]);
+
+    expect(await csv.read()).toEqual([
+      { zip: "00123", amount: 10, paid: true, note: "ok" },
+      { zip: "true", amount: 2.5, paid: null, note: null }
+    ]);
+
+    await expect(
+      csv.write({ zip: "1", amount: "10" as unknown as number, note: null })
+    ).rejects.toThrow(ValidationError);
+    await expect(
+      csv.write({ zip: null as unknown as string, amount: 1, note: null })
+    ).rejects.toThrow(/missing required value/);
+    expect(await csv.count()).toBe(2);
+
+    appendFileSync(
+      "test/csv/typed.csv",
+      "\n00999,abc,true,x\n1,1,maybe,x\n2,,,x"
+    );
+
+    await expect(csv.read()).rejects.toThrow(ValidationError);
+
+    const skipping = new CSV({
+      path: "test/csv/typed.csv",
+      headers: ["s:zip", "n:amount", "b:paid?", "note"],
+      onError: "skip"
+    });
+
+    expect(await skipping.count()).toBe(2);
+
+    const collecting = new CSV({
+      path: "test/csv/typed.csv",
+      headers: ["s:zip", "n:amount", "b:paid?", "note"],
+      onError: "collect"
+    });
+
+    expect(await collecting.read()).toHaveLength(2);
+    expect(collecting.getErrors().map(e => [e.row, e.column, e.value])).toEqual(
+      [
+        [2, "amount", "abc"],
+        [3, "paid", "maybe"],
+        [4, "amount", ""]
+      ]
+    );
+
+    await collecting.write([
+      { zip: "1", amount: 1, note: null },
+      { zip: "2", amount: NaN, note: null }
+    ]);
+
+    expect(collecting.getErrors()).toHaveLength(1);
+    expect(collecting.getErrors()[0].row).toBe(1);
+  });
+
+  test("extended types", async () => {
+    const csv = new CSV({
+      path: "test/csv/extended-types.csv",
+      headers: [
+        "i:id",
+        "d:createdAt",
+        "e(active|inactive):status",
+        "j:meta?",
+        "p:point",
+        "tags"
+      ],
+      codecs: {
+        p: {
+          parse: (raw: string) =>
+            raw.split(" ").map(Number) as [number, number],
+          serialize: v => v.join(" ")
+        },
+        tags: {
+          parse: (raw: string) => raw.split("|"),
+          serialize: v => v.join("|")
+        }
+      },
+      deletePrevious: true
+    });
+
+    let entries = [
+      {
+        id: BigInt("9007199254740993"),
+        createdAt: new Date("2023-11-25T10:00:00.000Z"),
+        status: "active" as const,
+        meta: { nested: [1, "two", null], "a,b": 'q"' },
+        point: [1.5, -2] as [number, number],
+        tags: ["a", "b"]
+      },
+      {
+        id: BigInt(-1),
+        createdAt: new Date(0),
+        status: "inactive" as const,
+        point: [0, 0] as [number, number],
+        tags: []
+      }
+    ];
+
+    await csv.write(entries);
+
+    let [entry] = await csv.read();
+
+    expectTypeOf(entry.id).toEqualTypeOf<bigint>();
+    expectTypeOf(entry.createdAt).toEqualTypeOf<Date>();
+    expectTypeOf(entry.status).toEqualTypeOf<"active" | "inactive">();
+    expectTypeOf(entry.point).toEqualTypeOf<[number, number]>();
+    expectTypeOf(entry.tags).toEqualTypeOf<string[]>();
+
+    expect(await csv.read()).toEqual([
+      entries[0],
+      { ...entries[1], meta: null, tags: [""] }
+    ]);
+
+    await expect(
+      csv.write({ ...entries[0], status: "deleted" as "active" })
+    ).rejects.toThrow(/not one of active, inactive/);
+  });
+
+  test("schema", async () => {
+    const csv = new CSV({
+      path: "test/csv/schema.csv",
+      schema: {
+        id: { type: "number", min: 1 },
+        email: { type: "string", pattern: /^\S+@\S+$/ },
+        role: { type: "string", enum: ["admin", "user"], default: "user" },
+        score: { type: "number", nullable: true, max: 100 },
+        joined: { type: "date", optional: true }
+      },
+      deletePrevious: true
+    });
+
+    expect(csv.getHeaders()).toEqual([
+      "id",
+      "email",
+      "role",
+      "score",
+      "joined"
+    ]);
+
+    await csv.write([
+      { id: 1, email: "a@b.c", role: "admin", score: 10 },
+      { id: 2, email: "d@e.f", score: null, joined: new Date(0) }
+    ]);
+
+    let entries = await csv.read();
+
+    expectTypeOf(entries[0].id).toEqualTypeOf<number>();
+    expectTypeOf(entries[0].role).toEqualTypeOf<"admin" | "user" | undefined>();
+    expectTypeOf(entries[0].score).toEqualTypeOf<number | null>();
+    expectTypeOf(entries[0].joined).toEqualTypeOf<Date | undefined>();
+
+    expect(entries).toEqual([
+      { id: 1, email: "a@b.c", role: "admin", score: 10, joined: null },
+      { id: 2, email: "d@e.f", role: "user", score: null, joined: new Date(0) }
+    ]);
+
+    const invalid = [
+      [{ id: 0, email: "a@b.c", score: 1 }, /less than the minimum 1/],
+      [{ id: 1, email: "nope", score: 1 }, /doesn't match the pattern/],
+      [{ id: 1, email: "a@b.c", score: 101 }, /greater than the maximum 100/],
+      [{ id: 1, email: "a@b.c" }, /"score".*missing required value/]
+    ] as const;
+
+    for (let [entry, message] of invalid) {
+      await expect(csv.write(entry as any)).rejects.toThrow(message);
+    }
+
+    appendFileSync("test/csv/schema.csv", "\n3,x@y.z,guest,null,null");
+
+    const collecting = new CSV({
+      path: "test/csv/schema.csv",
+      schema: {
+        id: { type: "number" },
+        email: { type: "string" },
+        role: { type: "string", enum: ["admin", "user"] },
+        score: { type: "number", nullable: true },
+        joined: { type: "date", optional: true }
+      },
+      onError: "collect"
+    });
+
+    expect(await collecting.count()).toBe(2);
+    expect(collecting.getErrors()[0]).toMatchObject({ row: 2, column: "role" });
+  });
+
+  test("encoding", async () => {
+    writeFileSync(
+      "test/csv/encoding.csv",
+      Buffer.from("\uFEFFname,city\nJosé,Zürich", "utf16le")
+    );
+
+    const csv = new CSV({
+      path: "test/csv/encoding.csv",
+      encoding: "utf-16le"
+    });
+
+    expect(csv.getHeaders()).toEqual(["name", "city"]);
+
+    await csv.write({ name: "Zoë", city: "Kraków" });
+
+    expect(await csv.read()).toEqual([
+      { name: "José", city: "Zürich" },
+      { name: "Zoë", city: "Kraków" }
+    ]);
+
+    await csv.clear();
+
+    expect(readFileSync("test/csv/encoding.csv")).toEqual(
+      Buffer.from("\uFEFFname,city", "utf16le")
+    );
+
+    const latin = new CSV({
+      path: "test/csv/encoding.csv",
+      headers: ["name", "price"],
+      encoding: "latin1",
+      deletePrevious: true
+    });
+
+    await latin.write({ name: "Café", price: "5€" });
+
+    expect(readFileSync("test/csv/encoding.csv")).toEqual(
+      Buffer.from([
+        ...Buffer.from("name,price\nCaf"),
+        0xe9,
+        ...Buffer.from(",5"),
+        0x80
+      ])
+    );
+    expect(await latin.read()).toEqual([{ name: "Café", price: "5€" }]);
+
+    const bom = new CSV({
+      path: "test/csv/encoding.csv",
+      headers: ["a"],
+      bom: true,
+      deletePrevious: true
+    });
+
+    expect(readFileSync("test/csv/encoding.csv", "utf-8")).toBe("\uFEFFa");
+    expect(bom.getHeaders()).toEqual(["a"]);
+    expect(new CSV({ path: "test/csv/encoding.csv" }).getHeaders()).toEqual([
+      "a"
+    ]);
+  });
+
+  test("index", async () => {
+    const open = (deletePrevious: boolean) =>
+      new CSV({
+        path: "test/csv/index.csv",
+        headers: ["n:id", "name", "city"],
+        indexPath: "test/csv/index.csv.idx",
+        deletePrevious
+      });
+
+    const csv = open(true);
+
+    let entries = Array.from({ length: 100 }, (_, i) => ({
+      id: i,
+      name: i % 10 === 0 ? `line\nbreak ${i}` : `Zoë ${i}`,
+      city: pick(["Zürich", "Kraków", "Rome, Italy"])
+    }));
+
+    await csv.write(entries);
+
+    expect(await csv.get(0)).toEqual(entries[0]);
+    expect(await csv.get(57)).toEqual(entries[57]);
+    expect(await csv.get(100)).toBeUndefined();
+    expect(await csv.slice(9, 12)).toEqual(entries.slice(9, 12));
+    expect(await csv.slice(-2)).toEqual(entries.slice(-2));
+    expect(await csv.getBy("id", 40)).toEqual(entries[40]);
+    expect(await csv.getBy("id", 1000)).toBeUndefined();
+    expect(existsSync("test/csv/index.csv.idx")).toBe(true);
+
+    // Appended rows are added to the index.
+    await csv.write({ id: 1000, name: "new", city: "Oslo" });
+    expect(await csv.get(100)).toEqual({ id: 1000, name: "new", city: "Oslo" });
+    expect(await csv.getBy("id", 1000)).toEqual(await csv.get(100));
+
+    // Deleting rewrites the file and the index.
+    await csv.delete(0);
+    expect(await csv.get(0)).toEqual(entries[1]);
+    expect(await csv.getBy("id", 0)).toBeUndefined();
+    expect(await csv.getBy("id", 1)).toEqual(entries[1]);
+
+    // Changes made by someone else are detected, and the index is rebuilt.
+    appendFileSync("test/csv/index.csv", "\n2000,other,Paris");
+
+    const other = open(false);
+    expect(await other.getBy("id", 2000)).toEqual({
+      id: 2000,
+      name: "other",
+      city: "Paris"
+    });
+    expect(await other.slice(-3, -1)).toEqual(await csv.slice(98, 100));
+  });
+
+  test("update and upsert", async () => {
+    const csv = new CSV({
+      path: "test/csv/update.csv",
+      headers: ["n:id", "s:name", "n:age"],
+      deletePrevious: true
+    });
+
+    await csv.write([
+      { id: 1, name: "John", age: 21 },
+      { id: 2, name: "Jane", age: 19 },
+      { id: 3, name: "Jim", age: 17 }
+    ]);
+
+    expect(await csv.update(x => x.age < 20, { name: "Janet" })).toBe(1);
+    expect(
+      await csv.updateAll(
+        x => x.age < 20,
+        x => ({ age: x.age + 1 })
+      )
+    ).toBe(2);
+    expect(await csv.update(x => x.id === 4, { age: 0 })).toBe(0);
+
+    expect(
+      await csv.upsert({ id: 3, name: "Jimmy", age: 30 }, { key: "id" })
+    ).toBe(1);
+    expect(
+      await csv.upsert({ id: 4, name: "Joe", age: 40 }, { key: ["id", "name"] })
+    ).toBe(1);
+
+    expect(await csv.read()).toEqual([
+      { id: 1, name: "John", age: 21 },
+      { id: 2, name: "Janet", age: 20 },
+      { id: 3, name: "Jimmy", age: 30 },
+      { id: 4, name: "Joe", age: 40 }
+    ]);
+
+    // A failure while rewriting leaves the file as it was.
+    let before = readFileSync("test/csv/update.csv", "utf-8");
+
+    await expect(
+      csv.updateAll(() => true, { age: "old" as any })
+    ).rejects.toThrow(ValidationError);
+
+    appendFileSync("test/csv/update.csv", "\n5,Jack,x");
+
+    await expect(csv.update(x => x.id === 5, { age: 1 })).rejects.toThrow(
+      ValidationError
+    );
+
+    expect(readFileSync("test/csv/update.csv", "utf-8")).toBe(
+      before + "\n5,Jack,x"
+    );
+    expect(
+      readdirSync("test/csv").filter(file => file.endsWith(".tmp"))
+    ).toEqual([]);
+  });
+
+  test("atomic rewrites", async () => {
+    const csv = new CSV({
+      path: "test/csv/atomic.csv",
+      headers: ["n:id", "name"],
+      deletePrevious: true
+    });
+
+    let entries = Array.from({ length: 1000 }, (_, i) => ({
+      id: 1000 - i,
+      name: randomUUID()
+    }));
+
+    await csv.write(entries);
+
+    // The sorted entries replace the previous ones.
+    let sorted = await csv.sort((a, b) => a.id - b.id, true);
+    expect(await csv.read()).toEqual(sorted);
+    expect(sorted[0].id).toBe(1);
+
+    let content = readFileSync("test/csv/atomic.csv", "utf-8");
+    let temps = () =>
+      readdirSync("test/csv").filter(file => file.endsWith(".tmp"));
+
+    // Fail at the last step, when the new file would replace the old one.
+    let rename = vi
+      .spyOn(promises, "rename")
+      .mockRejectedValue(new Error("crash"));
+
+    await expect(csv.delete(0)).rejects.toThrow("crash");
+    await expect(csv.deleteAll(x => x.id > 10)).rejects.toThrow("crash");
+    await expect(csv.sort((a, b) => b.id - a.id, true)).rejects.toThrow(
+      "crash"
+    );
+    await expect(csv.clear()).rejects.toThrow("crash");
+
+    rename.mockRestore();
+
+    // Fail while writing, after half of the data was written.
+    let open = promises.open;
+    let failing = vi
+      .spyOn(promises, "open")
+      .mockImplementation(async (...args: Parameters<typeof open>) => {
+        let file = await open(...args);
+        let write = file.write.bind(file);
+
+        file.write = (async (buffer: Buffer) => {
+          await write(buffer.subarray(0, buffer.length / 2));
+          throw new Error("disk full");
+        }) as any;
+
+        return file;
+      });
+
+    await expect(csv.deleteAll(x => x.id % 2 === 0)).rejects.toThrow(
+      "disk full"
+    );
+
+    failing.mockRestore();
+
+    expect(readFileSync("test/csv/atomic.csv", "utf-8")).toBe(content);
+    expect(temps()).toEqual([]);
+
+    await csv.deleteAll(x => x.id > 10);
+    await csv.delete(x => x.id === 5);
+    expect((await csv.read()).map(x => x.id)).toEqual([
+      1, 2, 3, 4, 6, 7, 8, 9, 10
+    ]);
+
+    await csv.clear();
+    expect(readFileSync("test/csv/atomic.csv", "utf-8")).toBe("id,name");
+    expect(temps()).toEqual([]);
+  });
+
+  test("queued operations", async () => {
+    const csv = new CSV({
+      path: "test/csv/queue.csv",
+      headers: ["n:id"],
+      deletePrevious: true
+    });
+
+    let [, , , read] = await Promise.all([
+      csv.write([{ id: 1 }, { id: 2 }]),
+      csv.delete(0),
+      csv.write({ id: 3 }),
+      csv.read(),
+      csv.update(x => x.id === 3, { id: 4 })
+    ]);
+
+    expect(read).toEqual([{ id: 2 }, { id: 3 }]);
+    expect(await csv.read()).toEqual([{ id: 2 }, { id: 4 }]);
+
+    // A failed operation doesn't stop the following ones.
+    await Promise.all([
+      expect(csv.write({ id: "x" as any })).rejects.toThrow(ValidationError),
+      csv.write({ id: 5 })
+    ]);
+
+    expect(await csv.count()).toBe(3);
+  });
+
+  test("lock file", async () => {
+    const path = "test/csv/lock.csv";
+
+    writeFileSync(path, "count\n0");
+
+    // Two instances, like two processes, incrementing the same counter.
+    const a = new CSV({ path, headers: ["n:count"], lock: true });
+    const b = new CSV({ path, headers: ["n:count"], lock: true });
+
+    await Promise.all(
+      Array.from({ length: 10 }, (_, i) =>
+        (i % 2 ? a : b).updateAll(
+          () => true,
+          x => ({ count: x.count + 1 })
+        )
+      )
+    );
+
+    expect(await a.read()).toEqual([{ count: 10 }]);
+    expect(existsSync(path + ".lock")).toBe(false);
+
+    // A lock held by a running process is waited for.
+    writeFileSync(path + ".lock", `${process.pid}@other-host:token`);
+
+    const c = new CSV({ path, headers: ["n:count"], lock: { timeout: 100 } });
+    await expect(c.write({ count: 1 })).rejects.toThrow(LockError);
+
+    // An abandoned lock is taken over.
+    let past = new Date(Date.now() - 60000);
+    utimesSync(path + ".lock", past, past);
+
+    await c.write({ count: 1 });
+    expect(await c.count()).toBe(2);
+    expect(existsSync(path + ".lock")).toBe(false);
+  });
+
+  test("auto flush", async () => {
+    let flushed: number[] = [];
+
+    const csv = new CSV({
+      path: "test/csv/auto-flush.csv",
+      headers: ["n:id", "name"],
+      deletePrevious: true,
+      autoFlush: {
+        entries: 3,
+        interval: 2000,
+        bytes: 100,
+        onFlush: n => flushed.push(n)
+      }
+    });
+
+    // After 3 entries
+    csv.store([
+      { id: 1, name: "a" },
+      { id: 2, name: "b" }
+    ]);
+    expect(await csv.count()).toBe(0);
+    csv.store({ id: 3, name: "c" });
+    expect(await csv.count()).toBe(3);
+
+    // After 100 bytes
+    csv.store({ id: 4, name: "x".repeat(100) });
+    expect(await csv.count()).toBe(4);
+
+    // After 2 seconds
+    csv.store({ id: 5, name: "e" });
+    expect(await csv.count()).toBe(4);
+    await new Promise(res => setTimeout(res, 2300));
+    expect(await csv.count()).toBe(5);
+
+    expect(flushed).toEqual([3, 1, 1]);
+
+    // Failed flushes keep the entries
+    let errors: unknown[] = [];
+    const failing = new CSV({
+      path: "test/csv/auto-flush.csv",
+      headers: ["n:id", "name"],
+      autoFlush: { entries: 1, onError: err => errors.push(err) }
+    });
+
+    failing.store({ id: "x" as any, name: "f" });
+    await expect(failing.flush()).rejects.toThrow(ValidationError);
+    expect(errors.length).toBe(2);
+
+    await expect(failing.close()).rejects.toThrow(ValidationError);
+    expect(errors.length).toBe(3);
+    expect(await csv.count()).toBe(5);
+
+    let listeners = process.listenerCount("beforeExit");
+    const closing = new CSV({
+      path: "test/csv/auto-flush.csv",
+      autoFlush: { onExit: true }
+    });
+
+    expect(process.listenerCount("beforeExit")).toBe(listeners + 1);
+    closing.store({ id: 6, name: "f" });
+    await closing.close();
+    expect(process.listenerCount("beforeExit")).toBe(listeners);
+    expect(await csv.count()).toBe(6);
+  });
+
+  test("flush on exit", () => {
+    const path = "test/csv/exit.csv";
+    const script = (end: string) => `
+      const { CSV } = require("./dist");
+      const csv = new CSV({ path: "${path}", headers: ["id"], autoFlush: { onExit: true } });
+      csv.store([{ id: 1 }, { id: 2 }]);
+      ${end}
+    `;
+
+    let exit = spawnSync("node", ["-e", script("")], { timeout: 10000 });
+    expect(exit.status).toBe(0);
+    expect(readFileSync(path, "utf-8")).toBe("id\n1\n2");
+
+    let killed = spawnSync(
+      "node",
+      [
+        "-e",
+        script(
+          `setTimeout(() => {}, 10000); process.kill(process.pid, "SIGTERM");`
+        )
+      ],
+      { timeout: 10000 }
+    );
+
+    expect(killed.signal).toBe("SIGTERM");
+    expect(readFileSync(path, "utf-8")).toBe("id\n1\n2\n1\n2");
+  });
+
+  test("sort by", async () => {
+    const path = "test/csv/sort-by.csv";
+    const csv = new CSV({
+      path,
+      headers: ["n:id", "s:name", "n:score?", "d:date"],
+      deletePrevious: true
+    });
+
+    let entries = Array.from({ length: 50 }, (_, i) => ({
+      id: i,
+      name: pick(["John", "Jane", "Jack"]),
+      score: i % 7 === 0 ? undefined : rng(0, 5),
+      date: new Date(Date.UTC(2020, 0, rng(1, 3)))
+    }));
+
+    await csv.write(entries);
+
+    let expected = (await csv.read()).sort(
+      (a, b) =>
+        (a.score ?? Infinity) - (b.score ?? Infinity) ||
+        b.date.getTime() - a.date.getTime() ||
+        a.id - b.id
+    );
+
+    // Sorted in runs of 7 entries, merged from temporary files
+    let mkdtemp = vi.spyOn(promises, "mkdtemp");
+
+    expect(await csv.sortBy(["score", ["date", "desc"]], { runSize: 7 })).toBe(
+      50
+    );
+    expect(mkdtemp).toHaveBeenCalledTimes(1);
+    expect(await csv.read()).toEqual(expected);
+    expect(
+      readdirSync(tmpdir()).filter(f => f.startsWith("csv-rw-sort-"))
+    ).toEqual([]);
+
+    await csv.sortBy([["name", "desc"]], {
+      output: "test/csv/sort-by-name.csv"
+    });
+    expect(await csv.read()).toEqual(expected);
+
+    const sorted = new CSV({
+      path: "test/csv/sort-by-name.csv",
+      headers: ["n:id", "s:name", "n:score?", "d:date"]
+    });
+
+    expect((await sorted.read()).map(x => x.name)).toEqual(
+      expected
+        .map(x => x.name)
+        .sort()
+        .reverse()
+    );
+
+    // Sorted in memory, without a temporary directory
+    mkdtemp.mockClear();
+    await csv.sortBy("id");
+    expect((await csv.read()).map(x => x.id)).toEqual(entries.map(x => x.id));
+    expect(mkdtemp).not.toHaveBeenCalled();
+    mkdtemp.mockRestore();
+  });
+
+  test("join and concat", async () => {
+    const customers = new CSV({
+      path: "test/csv/customers.csv",
+      headers: ["n:id", "s:name", "s:city?"],
+      deletePrevious: true
+    });
+    const orders = new CSV({
+      path: "test/csv/orders.csv",
+      headers: ["n:id", "n:customer?", "n:total"],
+      deletePrevious: true
+    });
+
+    await customers.write([
+      { id: 1, name: "John", city: "Rome" },
+      { id: 2, name: "Jane" },
+      { id: 3, name: "Jack", city: "Milan" }
+    ]);
+    await orders.write([
+      { id: 10, customer: 1, total: 5 },
+      { id: 11, customer: 3, total: 7 },
+      { id: 12, customer: 1, total: 2 },
+      { id: 13, customer: 4, total: 1 },
+      { id: 14, total: 3 }
+    ]);
+
+    const sorted = <
+      E extends { id_left: number | null; id_right: number | null }
+    >(
+      entries: E[]
+    ) =>
+      entries.sort(
+        (a, b) =>
+          (a.id_left ?? 0) - (b.id_left ?? 0) ||
+          (a.id_right ?? 0) - (b.id_right ?? 0)
+      );
+
+    for (let algorithm of ["hash", "merge"] as const) {
+      let inner = await CSV.join(customers, orders, {
+        on: ["id", "customer"],
+        algorithm
+      }).toArray();
+
+      expectTypeOf(inner[0]).toEqualTypeOf<{
+        id_left: number;
+        name: string;
+        city?: string;
+        id_right: number;
+        customer?: number;
+        total: number;
+      }>();
+      expect(sorted(inner)).toEqual([
+        {
+          id_left: 1,
+          name: "John",
+          city: "Rome",
+          id_right: 10,
+          customer: 1,
+          total: 5
+        },
+        {
+          id_left: 1,
+          name: "John",
+          city: "Rome",
+          id_right: 12,
+          customer: 1,
+          total: 2
+        },
+        {
+          id_left: 3,
+          name: "Jack",
+          city: "Milan",
+          id_right: 11,
+          customer: 3,
+          total: 7
+        }
+      ]);
+
+      let full = await CSV.join(customers, orders, {
+        on: ["id", "customer"],
+        type: "full",
+        algorithm
+      }).toArray();
+
+      expectTypeOf(full[0].name).toEqualTypeOf<string | null>();
+      expect(sorted(full).map(x => [x.id_left, x.id_right])).toEqual([
+        [null, 13],
+        [null, 14],
+        [1, 10],
+        [1, 12],
+        [2, null],
+        [3, 11]
+      ]);
+
+      let left = await CSV.join(customers, orders, {
+        on: ["id", "customer"],
+        type: "left",
+        algorithm
+      }).count();
+      let right = await CSV.join(customers, orders, {
+        on: ["id", "customer"],
+        type: "right",
+        algorithm
+      }).count();
+
+      expect([left, right]).toEqual([4, 5]);
+    }
+
+    let byId = await CSV.join(customers, orders, {
+      on: "id",
+      type: "right",
+      suffixes: ["", "_order"]
+    }).toArray();
+
+    expectTypeOf(byId[0]).toEqualTypeOf<{
+      id: number;
+      name: string | null;
+      city?: string | null;
+      customer?: number;
+      total: number;
+    }>();
+    expect(byId).toHaveLength(5);
+    expect(byId[0]).toEqual({
+      id: 10,
+      name: null,
+      city: null,
+      customer: 1,
+      total: 5
+    });
+
+    let all = await CSV.concat(customers, orders).toArray();
+
+    expectTypeOf(all[0].total).toEqualTypeOf<number | null>();
+    expect(all).toHaveLength(8);
+    expect(all[0]).toEqual({
+      id: 1,
+      name: "John",
+      city: "Rome",
+      customer: null,
+      total: null
+    });
+    expect(all[7]).toEqual({
+      id: 14,
+      name: null,
+      city: null,
+      customer: null,
+      total: 3
+    });
+    expect(
+      readdirSync(tmpdir()).filter(f => f.startsWith("csv-rw-join-"))
+    ).toEqual([]);
+  });
+
+  test("join keys of different types", async () => {
+    writeFileSync(
+      "test/csv/join-left.csv",
+      'id,name\n1,John\n"2",Jane\n3,Jack'
+    );
+    writeFileSync("test/csv/join-right.csv", 'id,total\n1,5\n2,7\n"3",2\n1,4');
+
+    const left = new CSV({
+      path: "test/csv/join-left.csv",
+      headers: ["id", "name"]
+    });
+    const right = new CSV({
+      path: "test/csv/join-right.csv",
+      headers: ["id", "total"]
+    });
+
+    // Both algorithms match only keys of the same type: 1 matches 1, but 2 doesn't match "2".
+    for (let algorithm of ["hash", "merge"] as const) {
+      let joined = await CSV.join(left, right, {
+        on: "id",
+        type: "full",
+        algorithm
+      }).toArray();
+
+      expect(
+        joined.map(x => `${JSON.stringify(x.id)} ${x.name} ${x.total}`).sort()
+      ).toEqual([
+        '"2" Jane null',
+        '"3" null 2',
+        "1 John 4",
+        "1 John 5",
+        "2 null 7",
+        "3 Jack null"
+      ]);
+    }
+  });
+
+  test("query", async () => {
+    const csv = new CSV({
+      path: "test/csv/query.csv",
+      headers: ["n:id", "s:name", "s:city", "n:age?"],
+      deletePrevious: true
+    });
+
+    await csv.write([
+      { id: 1, name: "John", city: "Rome", age: 30 },
+      { id: 2, name: "Jane", city: "Milan", age: 25 },
+      { id: 3, name: "Jack", city: "Rome", age: 40 },
+      { id: 4, name: "Jill", city: "Turin" },
+      { id: 5, name: "Joe", city: "Milan", age: 25 }
+    ]);
+
+    let adults = csv
+      .query()
+      .where(x => (x.age ?? 0) >= 30)
+      .select("name", "age");
+
+    expectTypeOf(await adults.toArray()).toEqualTypeOf<
+      { name: string; age?: number }[]
+    >();
+    expect(await adults.toArray()).toEqual([
+      { name: "John", age: 30 },
+      { name: "Jack", age: 40 }
+    ]);
+
+    expect(
+      await csv
+        .query()
+        .orderBy("age", "desc")
+        .orderBy("name")
+        .select("id")
+        .toArray()
+    ).toEqual([{ id: 3 }, { id: 1 }, { id: 2 }, { id: 5 }, { id: 4 }]);
+
+    expect(await csv.query().offset(1).limit(2).select("id").toArray()).toEqual(
+      [{ id: 2 }, { id: 3 }]
+    );
+    expect(await csv.query().select("city").distinct().count()).toBe(3);
+    expect(
+      await csv
+        .query()
+        .where(x => x.id > 3)
+        .first()
+    ).toMatchObject({
+      name: "Jill"
+    });
+    expect(
+      await csv
+        .query()
+        .where(x => x.id > 5)
+        .first()
+    ).toBeUndefined();
+
+    let groups = await csv
+      .query()
+      .groupBy("city", {
+        people: "count",
+        total: ["sum", "age"],
+        average: ["avg", "age"],
+        oldest: ["max", "age"]
+      })
+      .orderBy("people", "desc")
+      .toArray();
+
+    expectTypeOf(groups[0].oldest).toEqualTypeOf<number | null>();
+    expect(groups).toEqual([
+      { city: "Rome", people: 2, total: 70, average: 35, oldest: 40 },
+      { city: "Milan", people: 2, total: 50, average: 25, oldest: 25 },
+      { city: "Turin", people: 1, total: 0, average: null, oldest: null }
+    ]);
+
+    let rows = 0;
+    for await (let _ of csv.query().limit(1)) rows++;
+    expect(rows).toBe(1);
+
+    await csv.delete(0);
+    expect(await adults.count()).toBe(1);
+  });
+
+  test("profile", async () => {
+    writeFileSync(
+      "test/csv/profile.csv",
+      'id,name,born,age,active,code,zip\n1,John,1990-01-02,30,true,a1,"00123"\n2,"Doe, Jane",1985-05-06,,false,7,"00456"\n3,"",2001-12-31T10:00:00Z,40,true,a1,"00123"\n4,Jill,null,20'
+    );
+
+    const csv = new CSV({ path: "test/csv/profile.csv" });
+    let profile = await csv.profile({ samples: 2 });
+
+    expect(profile.rows).toBe(4);
+    expect(profile.headers).toEqual([
+      "n:id",
+      "s:name",
+      "d:born?",
+      "n:age?",
+      "b:active?",
+      "s:code?",
+      "s:zip?"
+    ]);
+
+    let [id, name, born, age, active, code, zip] = profile.columns;
+
+    expect(id).toMatchObject({ type: "number", min: 1, max: 4, mean: 2.5 });
+    expect(name).toMatchObject({
+      type: "string",
+      count: 4,
+      empty: 1,
+      distinct: 4,
+      maxLength: 9,
+      samples: ["John", "Doe, Jane"]
+    });
+    expect(born).toMatchObject({
+      type: "date",
+      nulls: 1,
+      min: new Date("1985-05-06"),
+      max: new Date("2001-12-31T10:00:00Z")
+    });
+    expect(age).toMatchObject({ count: 3, nulls: 1, mean: 30 });
+    expect(age.stddev).toBeCloseTo(8.165, 3);
+    expect(active).toMatchObject({ type: "boolean", distinct: 2, max: true });
+    expect(code).toMatchObject({
+      type: "mixed",
+      distinct: 2,
+      min: null,
+      mean: null,
+      samples: ["a1", 7]
+    });
+    // Quoted fields are strings, like when they are read.
+    expect(zip).toMatchObject({
+      type: "string",
+      distinct: 2,
+      samples: ["00123", "00456"]
+    });
+
+    let approximate = await csv.profile({ distinct: "approximate" });
+    expect(approximate.columns.map(c => c.distinct)).toEqual([
+      4, 4, 3, 3, 2, 2, 2
+    ]);
+
+    const typed = new CSV({
+      path: "test/csv/profile.csv",
+      headers: profile.headers
+    });
+    expect((await typed.read())[1]).toEqual({
+      id: 2,
+      name: "Doe, Jane",
+      born: new Date("1985-05-06"),
+      age: null,
+      active: false,
+      code: "7",
+      zip: "00456"
+    });
+
+    // The suggested headers keep names with a colon or a question mark.
+    writeFileSync(
+      "test/csv/profile.csv",
+      "Time: start,Is active?,a:b\n10:00,true,1\n7,false,2"
+    );
+
+    let names = await new CSV({ path: "test/csv/profile.csv" }).profile();
+
+    expect(names.headers).toEqual(["s:Time: start", "b:Is active??", "n:a:b"]);
+    expect(
+      await new CSV({
+        path: "test/csv/profile.csv",
+        headers: names.headers
+      }).read()
+    ).toEqual([
+      { "Time: start": "10:00", "Is active?": true, "a:b": 1 },
+      { "Time: start": "7", "Is active?": false, "a:b": 2 }
+    ]);
+  });
+
+  test("in memory", async () => {
+    const csv = new CSV({
+      data: "id;name\n1;John\n2;Jane",
+      delimiter: "auto",
+      headers: ["n:id", "s:name"]
+    });
+
+    expect(csv.getPath()).toBe("");
+    expect(csv.getDialect().delimiter).toBe(";");
+
+    await csv.write({ id: 3, name: "Doe; J" });
+    expect(await csv.get(2)).toEqual({ id: 3, name: "Doe; J" });
+    expect(await csv.getBy("id", 2)).toEqual({ id: 2, name: "Jane" });
+
+    await csv.update(x => x.id === 1, { name: "Jack" });
+    await csv.sortBy([["id", "desc"]]);
+    await csv.delete(x => x.id === 2);
+
+    expect(await csv.query().select("name").toArray()).toEqual([
+      { name: "Doe; J" },
+      { name: "Jack" }
+    ]);
+    expect(await csv.text()).toBe('id;name\n3;"Doe; J"\n1;Jack');
+
+    const empty = new CSV({ headers: ["a", "b"] });
+    await empty.write([{ a: 1, b: "x" }]);
+    expect(await empty.text()).toBe("a,b\n1,x");
+
+    expect(() => new CSV({ path: "test/csv/memory.csv", data: "a,b" })).toThrow(
+      /either a path or data/
+    );
+    expect(existsSync("test/csv/memory.csv")).toBe(false);
+  });
+
+  test("storage", async () => {
+    const memory = new MemoryStorage({ "users.csv": "id,name\n1,John" });
+    const csv = new CSV({
+      path: "users.csv",
+      storage: memory,
+      headers: ["n:id", "s:name"]
+    });
+
+    await csv.write({ id: 2, name: "Jane" });
+    await csv.update(x => x.id === 1, { name: "Jack" });
+    expect(await csv.getBy("id", 2)).toEqual({ id: 2, name: "Jane" });
+    expect(memory.get("users.csv")!.toString()).toBe("id,name\n1,Jack\n2,Jane");
+    expect(existsSync("users.csv")).toBe(false);
+
+    // Only the asynchronous methods, like a remote store.
+    let calls: string[] = [];
+    const remote: StorageAdapter = {
+      read: (path, opts) => (calls.push("read"), memory.read(path, opts)),
+      append: (path, chunks) => (
+        calls.push("append"), memory.append(path, chunks)
+      ),
+      replace: (path, chunks) => (
+        calls.push("replace"), memory.replace(path, chunks)
+      ),
+      exists: path => (calls.push("exists"), memory.exists(path)),
+      stat: path => memory.stat(path)
+    };
+
+    const pending = new CSV({ path: "users.csv", storage: remote });
+    expect(pending.getHeaders()).toEqual([]);
+    expect(await pending.count()).toBe(2);
+    expect(pending.getHeaders()).toEqual(["id", "name"]);
+
+    const opened = await CSV.open({
+      path: "new.csv",
+      storage: remote,
+      headers: ["n:id"]
+    });
+    await opened.write([{ id: 1 }, { id: 2 }]);
+    await opened.sortBy([["id", "desc"]]);
+
+    expect(memory.get("new.csv")!.toString()).toBe("id\n2\n1");
+    expect(calls).toEqual([
+      "exists",
+      "read",
+      "read",
+      "exists",
+      "replace",
+      "append",
+      "read",
+      "replace"
+    ]);
+
+    expect(() => new CSV({ headers: ["a"], storage: memory })).toThrow(
+      /path of the file/
+    );
+    await expect(
+      CSV.open({
+        path: "missing.csv",
+        storage: { ...remote, exists: async () => true }
+      })
+    ).rejects.toThrow(/ENOENT/);
+  });
+
+  test("compression", async () => {
+    const csv = new CSV({
+      path: "test/csv/compressed.csv.gz",
+      headers: ["n:id", "s:name"],
+      deletePrevious: true
+    });
+
+    await csv.write([
+      { id: 1, name: "John" },
+      { id: 2, name: "Jane" }
+    ]);
+    await csv.write({ id: 3, name: "Jack" });
+
+    // Each write adds a gzip member
+    let gzipped = readFileSync("test/csv/compressed.csv.gz");
+    expect(gunzipSync(gzipped).toString()).toBe(
+      "id,name\n1,John\n2,Jane\n3,Jack"
+    );
+    expect(gzipped.length).toBeGreaterThan(
+      gzipSync("id,name\n1,John\n2,Jane\n3,Jack").length
+    );
+
+    expect(await csv.get(2)).toEqual({ id: 3, name: "Jack" });
+    await csv.update(x => x.id === 2, { name: "Jill" });
+    expect(await csv.slice(1)).toEqual([
+      { id: 2, name: "Jill" },
+      { id: 3, name: "Jack" }
+    ]);
+
+    const reopened = new CSV({ path: "test/csv/compressed.csv.gz" });
+    expect(reopened.getHeaders()).toEqual(["id", "name"]);
+    expect(await reopened.count()).toBe(3);
+
+    const brotli = new CSV({
+      path: "test/csv/compressed.csv",
+      compression: "brotli",
+      headers: ["n:id"],
+      deletePrevious: true
+    });
+
+    await brotli.write([{ id: 2 }, { id: 1 }]);
+    await brotli.write({ id: 3 });
+    await brotli.sortBy([["id", "asc"]], {
+      output: "test/csv/compressed-sorted.csv.gz"
+    });
+
+    expect(
+      brotliDecompressSync(readFileSync("test/csv/compressed.csv")).toString()
+    ).toBe("id\n2\n1\n3");
+    expect(
+      gunzipSync(readFileSync("test/csv/compressed-sorted.csv.gz")).toString()
+    ).toBe("id\n1\n2\n3");
+
+    await csv.toJson("test/csv/compressed.ndjson.gz", { format: "ndjson" });
+    expect(
+      gunzipSync(readFileSync("test/csv/compressed.ndjson.gz")).toString()
+    ).toBe(
+      '{"id":1,"name":"John"}\n{"id":2,"name":"Jill"}\n{"id":3,"name":"Jack"}\n'
+    );
+
+    const imported = await CSV.fromJson(
+      (async function* () {
+        yield readFileSync("test/csv/compressed.ndjson.gz");
+      })(),
+      "test/csv/compressed-json.csv.br",
+      { headers: ["n:id", "s:name"] }
+    );
+
+    expect(await imported.read()).toEqual(await csv.read());
+    expect(
+      brotliDecompressSync(
+        readFileSync("test/csv/compressed-json.csv.br")
+      ).toString()
+    ).toBe("id,name\n1,John\n2,Jill\n3,Jack");
+  });
+
+  test("columns", async () => {
+    const path = "test/csv/columns.csv";
+
+    writeFileSync(path, 'id,name,mail\n1,"Doe, J",j@x.io\n2,"007",\n3');
+
+    const csv = new CSV({ path });
+
+    await csv.addColumn("b:active", true);
+    await csv.renameColumn("mail", "email");
+    await csv.reorderColumns(["name", "id", "active", "email"]);
+    await csv.dropColumn("active");
+
+    // The fields are copied as they are, "007" stays a quoted string
+    expect(readFileSync(path, "utf-8")).toBe(
+      'name,id,email\n"Doe, J",1,j@x.io\n"007",2,\n,3,'
+    );
+    expect(csv.getHeaders()).toEqual(["name", "id", "email"]);
+    expect(await csv.get(1)).toEqual({ name: "007", id: 2, email: null });
+
+    await expect(csv.addColumn("n:score", "high")).rejects.toThrow(
+      ValidationError
+    );
+    await expect(csv.renameColumn("name", "id")).rejects.toThrow(
+      /already exists/
+    );
+    await expect(csv.renameColumn("name", " ")).rejects.toThrow(
+      /Invalid column name/
+    );
+    await expect(csv.dropColumn("missing")).rejects.toThrow(/Unknown column/);
+    await expect(csv.reorderColumns(["id", "name"])).rejects.toThrow(
+      /each of the columns/
+    );
+    expect(csv.getHeaders()).toEqual(["name", "id", "email"]);
+
+    expect(
+      () => new CSV({ path, headers: ["n:id", "s:name", "s:email?"] })
+    ).toThrow(HeaderMismatchError);
+
+    const ignored = new CSV({
+      path,
+      headers: ["a", "b", "c"],
+      onHeaderMismatch: "ignore"
+    });
+    expect(await ignored.get(0)).toEqual({ a: "Doe, J", b: 1, c: "j@x.io" });
+
+    const migrated = await CSV.open({
+      path,
+      schema: {
+        id: { type: "number" },
+        name: { type: "string" },
+        role: { type: "string", default: "user" }
+      },
+      onHeaderMismatch: "migrate"
+    });
+
+    expect(readFileSync(path, "utf-8")).toBe(
+      'id,name,role\n1,"Doe, J",user\n2,"007",user\n3,,user'
+    );
+    expect(await migrated.get(0)).toEqual({
+      id: 1,
+      name: "Doe, J",
+      role: "user"
+    });
+  });
+
+  test("header names", async () => {
+    const path = "test/csv/header-names.csv";
+
+    writeFileSync(path, 'First Name,Prix (€),id,id,"a,b"\nJohn,3.5,1,2,x');
+
+    const csv = new CSV({
+      path,
+      headers: ["s:firstName", "n:Prix (€)", "n:id", "n:id_2", "s:a,b"],
+      mapHeaders: { "First Name": "firstName" }
+    });
+
+    expect(await csv.read()).toEqual([
+      { firstName: "John", "Prix (€)": 3.5, id: 1, id_2: 2, "a,b": "x" }
+    ]);
+
+    await csv.write({
+      firstName: "Jane",
+      "Prix (€)": 4,
+      id: 3,
+      id_2: 4,
+      "a,b": "y"
+    });
+    await csv.renameColumn("id_2", "parentId");
+
+    // The file keeps its names, except the renamed one
+    expect(readFileSync(path, "utf-8")).toBe(
+      'First Name,Prix (€),id,parentId,"a,b"\nJohn,3.5,1,2,x\nJane,4,3,4,y'
+    );
+
+    // A colon is part of the new name, the column keeps its type
+    const typed = new CSV({
+      path,
+      headers: ["s:First Name", "n:Prix (€)", "n:id", "s:parentId", "s:a,b"]
+    });
+
+    await typed.renameColumn("parentId", "n:parent");
+    expect(typed.getHeaders()).toContain("n:parent");
+    expect(await typed.get(1)).toMatchObject({ "n:parent": "4" });
+    expect(new CSV({ path }).getHeaders()).toEqual([
+      "First Name",
+      "Prix (€)",
+      "id",
+      "n:parent",
+      "a,b"
+    ]);
+
+    const created = new CSV({
+      path: "test/csv/header-names-new.csv",
+      headers: ["s:firstName", "n:age"],
+      mapHeaders: { "First Name": "firstName" },
+      deletePrevious: true
+    });
+
+    await created.write({ firstName: "Jo", age: 30 });
+    expect(readFileSync("test/csv/header-names-new.csv", "utf-8")).toBe(
+      "First Name,age\nJo,30"
+    );
+  });
+
+  test("no header row", async () => {
+    const path = "test/csv/headerless.csv";
+
+    const csv = new CSV({
+      path,
+      hasHeader: false,
+      headers: ["n:id", "s:name"],
+      deletePrevious: true
+    });
+
+    expect(readFileSync(path, "utf-8")).toBe("");
+
+    await csv.write({ id: 1, name: "John" });
+    await csv.write([
+      { id: 2, name: "Jane" },
+      { id: 3, name: "Jack" }
+    ]);
+
+    expect(readFileSync(path, "utf-8")).toBe("1,John\n2,Jane\n3,Jack");
+    expect(await csv.get(0)).toEqual({ id: 1, name: "John" });
+    expect(await csv.getBy("id", 3)).toEqual({ id: 3, name: "Jack" });
+
+    await csv.delete(x => x.id === 1);
+    await csv.update(x => x.id === 2, { name: "Jill" });
+
+    expect(readFileSync(path, "utf-8")).toBe("2,Jill\n3,Jack");
+    expect(await csv.read()).toEqual([
+      { id: 2, name: "Jill" },
+      { id: 3, name: "Jack" }
+    ]);
+    expect(csv.getDialect().hasHeader).toBe(false);
+
+    // Without headers, the columns are named after the fields of the first row.
+    const positional = new CSV({ path, hasHeader: false });
+
+    expect(positional.getHeaders()).toEqual(["column1", "column2"]);
+    expect(await positional.get(1)).toEqual({ column1: 3, column2: "Jack" });
+
+    await positional.write({ column1: 4, column2: "Joe" });
+    expect(readFileSync(path, "utf-8")).toBe("2,Jill\n3,Jack\n4,Joe");
+
+    // With the auto delimiter, whether the file has a header row is sniffed too, unless it's set.
+    writeFileSync(path, "1;John\n2;Jane\n3;Jack");
+
+    const sniffed = new CSV({
+      path,
+      delimiter: "auto",
+      headers: ["n:id", "s:name"]
+    });
+
+    expect(sniffed.getDialect().hasHeader).toBe(false);
+    expect(await sniffed.count()).toBe(3);
+    expect(await sniffed.get(0)).toEqual({ id: 1, name: "John" });
+    expect(new CSV({ path, delimiter: "auto" }).getHeaders()).toEqual([
+      "column1",
+      "column2"
+    ]);
+
+    // Values as long as the header don't make it a data row.
+    writeFileSync(path, "name,code\nJohn,ABCD\nJane,EFGH");
+
+    const strings = new CSV({ path, delimiter: "auto" });
+
+    expect(strings.getDialect().hasHeader).toBe(true);
+    expect(await strings.read()).toEqual(
+      parse("name,code\nJohn,ABCD\nJane,EFGH", { delimiter: "auto" })
+    );
+    expect(await strings.read()).toEqual([
+      { name: "John", code: "ABCD" },
+      { name: "Jane", code: "EFGH" }
+    ]);
+
+    writeFileSync(path, "1;John\n2;Jane\n3;Jack");
+
+    const explicit = new CSV({ path, delimiter: "auto", hasHeader: true });
+    expect(explicit.getDialect().hasHeader).toBe(true);
+    expect(explicit.getHeaders()).toEqual(["1", "John"]);
   });
 
   afterAll(() => {
@@ -320,5 +1945,40 @@ describe("CSV", () => {
     unlinkSync("test/csv/from-json.csv");
     unlinkSync("test/csv/to-json.csv");
     unlinkSync("test/csv/to-json.json");
+    unlinkSync("test/csv/rows.csv");
+    unlinkSync("test/csv/typed.csv");
+    unlinkSync("test/csv/extended-types.csv");
+    unlinkSync("test/csv/schema.csv");
+    unlinkSync("test/csv/encoding.csv");
+    unlinkSync("test/csv/index.csv");
+    unlinkSync("test/csv/index.csv.idx");
+    unlinkSync("test/csv/update.csv");
+    unlinkSync("test/csv/atomic.csv");
+    unlinkSync("test/csv/queue.csv");
+    unlinkSync("test/csv/lock.csv");
+    unlinkSync("test/csv/join-left.csv");
+    unlinkSync("test/csv/join-right.csv");
+    unlinkSync("test/csv/auto-flush.csv");
+    unlinkSync("test/csv/exit.csv");
+    unlinkSync("test/csv/query.csv");
+    unlinkSync("test/csv/sort-by.csv");
+    unlinkSync("test/csv/sort-by-name.csv");
+    unlinkSync("test/csv/customers.csv");
+    unlinkSync("test/csv/orders.csv");
+    unlinkSync("test/csv/json.csv");
+    unlinkSync("test/csv/json-spilled.csv");
+    unlinkSync("test/csv/json.ndjson");
+    unlinkSync("test/csv/json-typed.csv");
+    unlinkSync("test/csv/json-keys.csv");
+    unlinkSync("test/csv/profile.csv");
+    unlinkSync("test/csv/compressed.csv.gz");
+    unlinkSync("test/csv/compressed.csv");
+    unlinkSync("test/csv/compressed-sorted.csv.gz");
+    unlinkSync("test/csv/compressed.ndjson.gz");
+    unlinkSync("test/csv/compressed-json.csv.br");
+    unlinkSync("test/csv/columns.csv");
+    unlinkSync("test/csv/header-names.csv");
+    unlinkSync("test/csv/header-names-new.csv");
+    unlinkSync("test/csv/headerless.csv");
   });
 });
@@ -0,0 +1,281 @@
+import { describe, test, expect, afterAll } from "vitest";
+import { writeFileSync, unlinkSync } from "fs";
+import { parser } from "../../src/parser";
+import { readLines, readLinesSync } from "../../src/lib";
+import { recordReader } from "../../src/lib/records";
+import { CSV } from "../../src";
+
+const values = (record: string, opts = {}) =>
+  parser.tokenize(record, opts).map(f => f.value);
+
+describe("parser", () => {
+  describe("RFC 4180 tokenizer", () => {
+    test("fields separated by commas", () => {
+      expect(values("aaa,bbb,ccc")).toEqual(["aaa", "bbb", "ccc"]);
+    });
+
+    test("empty fields", () => {
+      expect(values(",,")).toEqual(["", "", ""]);
+      expect(values("a,,c,")).toEqual(["a", "", "c", ""]);
+      expect(values("")).toEqual([""]);
+    });
+
+    test("spaces are part of unquoted fields", () => {
+      expect(values(" a b , c ")).toEqual([" a b ", " c "]);
+    });
+
+    test("quoted fields", () => {
+      expect(parser.tokenize('"aaa","bbb",ccc')).toEqual([
+        { value: "aaa", quoted: true },
+        { value: "bbb", quoted: true },
+        { value: "ccc", quoted: false }
+      ]);
+    });
+
+    test("quoted fields containing the delimiter", () => {
+      expect(values('"a,b",c')).toEqual(["a,b", "c"]);
+    });
+
+    test("escaped quotes", () => {
+      expect(values('"a ""quoted"" word",b')).toEqual(['a "quoted" word', "b"]);
+      expect(values('""""')).toEqual(['"']);
+      expect(values('"",b')).toEqual(["", "b"]);
+    });
+
+    test("line breaks inside quoted fields", () => {
+      expect(values('"line 1\nline 2",b')).toEqual(["line 1\nline 2", "b"]);
+      expect(values('"line 1\r\nline 2"')).toEqual(["line 1\r\nline 2"]);
+    });
+
+    test("quotes inside unquoted fields are literal", () => {
+      expect(values('5"10,b')).toEqual(['5"10', "b"]);
+    });
+
+    test("whitespace around quoted fields is ignored", () => {
+      expect(values(' "a" , "b"')).toEqual(["a", "b"]);
+    });
+
+    test("custom delimiter and quote", () => {
+      expect(values("a;'b;c';'it''s'", { delimiter: ";", quote: "'" })).toEqual(
+        ["a", "b;c", "it's"]
+      );
+      expect(values('a\t"b\tc"', { delimiter: "\t" })).toEqual(["a", "b\tc"]);
+    });
+
+    test("incomplete records", () => {
+      expect(parser.isRecordComplete('a,"b')).toBe(false);
+      expect(parser.isRecordComplete('a,"b\nc"')).toBe(true);
+      expect(parser.isRecordComplete('a,"b""')).toBe(false);
+      expect(parser.isRecordComplete('a,b"')).toBe(true);
+    });
+  });
+
+  describe("parseRow", () => {
+    test("infers types of unquoted fields", () => {
+      expect(parser.parseRow("John, 21 ,true,null,")).toEqual([
+        "John",
+        21,
+        true,
+        null,
+        null
+      ]);
+    });
+
+    test("keeps quoted fields as strings", () => {
+      expect(parser.parseRow('"21","true","null",""," a "')).toEqual([
+        "21",
+        "true",
+        "null",
+        "",
+        " a "
+      ]);
+    });
+
+    test("maps fields to headers", () => {
+      expect(
+        parser.parseRow('Doe; "Main St; 1";', {
+          delimiter: ";",
+          headers: ["name", "address", "age", "missing"]
+        })
+      ).toEqual({
+        name: "Doe",
+        address: "Main St; 1",
+        age: null,
+        missing: null
+      });
+    });
+  });
+
+  describe("mapHeaders", () => {
+    test("keeps any name and suffixes repeated ones", () => {
+      expect(
+        parser.mapHeaders(["First Name", "Prix (€)", "id", "id", "id_2"])
+      ).toEqual(["First Name", "Prix (€)", "id", "id_2", "id_2_2"]);
+    });
+
+    test("maps names with an object or a function", () => {
+      expect(
+        parser.mapHeaders(["First Name", "Age", "constructor"], {
+          "First Name": "firstName"
+        })
+      ).toEqual(["firstName", "Age", "constructor"]);
+      expect(
+        parser.mapHeaders(["A", "B"], (name, i) => `${name.toLowerCase()}${i}`)
+      ).toEqual(["a0", "b1"]);
+    });
+  });
+
+  describe("serializeValue", () => {
+    test("minimal quoting", () => {
+      expect(parser.serializeValue("plain")).toBe("plain");
+      expect(parser.serializeValue(21)).toBe("21");
+      expect(parser.serializeValue(false)).toBe("false");
+      expect(parser.serializeValue(null)).toBe("null");
+      expect(parser.serializeValue(undefined)).toBe("null");
+      expect(parser.serializeValue("a,b")).toBe('"a,b"');
+      expect(parser.serializeValue('say "hi"')).toBe('"say ""hi"""');
+      expect(parser.serializeValue("a\r\nb")).toBe('"a\r\nb"');
+      expect(parser.serializeValue(" padded ")).toBe('" padded "');
+      expect(parser.serializeValue("")).toBe('""');
+      expect(parser.serializeValue("21")).toBe('"21"');
+      expect(parser.serializeValue("null")).toBe('"null"');
+    });
+
+    test("quoting policies", () => {
+      expect(parser.serializeValue(21, { quoting: "all" })).toBe('"21"');
+      expect(parser.serializeValue(null, { quoting: "all" })).toBe("null");
+      expect(parser.serializeValue(21, { quoting: "non-numeric" })).toBe("21");
+      expect(parser.serializeValue("a", { quoting: "non-numeric" })).toBe(
+        '"a"'
+      );
+      expect(parser.serializeValue(" a ", { quoting: "none" })).toBe(" a ");
+      expect(() => parser.serializeValue("a,b", { quoting: "none" })).toThrow();
+    });
+
+    test("custom quote and delimiter", () => {
+      expect(
+        parser.serializeValue("it's;here", { delimiter: ";", quote: "'" })
+      ).toBe("'it''s;here'");
+      expect(parser.serializeValue("a,b", { delimiter: ";" })).toBe("a,b");
+    });
+  });
+
+  describe("round-trip", () => {
+    const entries = [
+      { id: 1, text: "plain", flag: true },
+      { id: 2, text: "comma, separated", flag: false },
+      { id: 3, text: 'with "quotes"', flag: null },
+      { id: 4, text: "multi\nline\r\ntext", flag: true },
+      { id: 5, text: "  surrounding whitespace ", flag: true },
+      { id: 6, text: "", flag: false },
+      { id: 7, text: "42", flag: true },
+      { id: 8, text: "null", flag: true },
+      { id: 9, text: "True", flag: true },
+      { id: 10, text: "Mixed Case", flag: true }
+    ];
+
+    for (let quoting of ["minimal", "non-numeric"] as const) {
+      test(quoting, async () => {
+        const csv = new CSV({
+          path: `test/parser/round-trip-${quoting}.csv`,
+          headers: ["id", "text", "flag"],
+          deletePrevious: true,
+          quoting
+        });
+
+        await csv.write(entries);
+        expect(await csv.read()).toEqual(entries);
+      });
+    }
+
+    test("custom dialect", async () => {
+      const csv = new CSV({
+        path: "test/parser/round-trip-dialect.csv",
+        headers: ["id", "text", "flag"],
+        deletePrevious: true,
+        delimiter: ";",
+        quote: "'"
+      });
+
+      await csv.write([...entries, { id: 11, text: "it's; ok", flag: true }]);
+      expect(await csv.read()).toEqual([
+        ...entries,
+        { id: 11, text: "it's; ok", flag: true }
+      ]);
+    });
+  });
+
+  describe("multi-line records", () => {
+    const content = [
+      "id,name,address",
+      '1,"Doe, John","Main St 1',
+      'Springfield"',
+      '2,"Jane ""JJ"" Roe",""',
+      '3,Max,"a',
+      "",
+      'b"'
+    ].join("\n");
+
+    writeFileSync("test/parser/multi-line.csv", content);
+
+    test("readLines joins quoted line breaks", async () => {
+      let records: string[] = [];
+
+      await readLines(
+        "test/parser/multi-line.csv",
+        line => records.push(line),
+        {
+          quote: '"'
+        }
+      );
+
+      expect(records).toHaveLength(4);
+      expect(records[1]).toBe('1,"Doe, John","Main St 1\nSpringfield"');
+      expect(records[3]).toBe('3,Max,"a\n\nb"');
+    });
+
+    test("readLinesSync joins quoted line breaks", () => {
+      let records: string[] = [];
+
+      readLinesSync("test/parser/multi-line.csv", line => records.push(line), {
+        quote: '"'
+      });
+
+      expect(records).toHaveLength(4);
+      expect(records[3]).toBe('3,Max,"a\n\nb"');
+    });
+
+    test("recordReader follows quotes across lines", () => {
+      let reader = recordReader({ quote: '"' });
+      let long = Array.from({ length: 100000 }, (_, i) => `line ${i}`);
+
+      expect(reader.push(`1,"${long.join("\n")}"\n`)).toEqual([
+        `1,"${long.join("\n")}"`
+      ]);
+      expect(reader.push('2,"a""\n"" b",c\r\n3," x\n"y"\n')).toEqual([
+        '2,"a""\n"" b",c',
+        '3," x\n"y"'
+      ]);
+      expect(reader.push('4,a"b\n5,"open\nend')).toEqual(['4,a"b']);
+      expect(reader.end()).toEqual(['5,"open\nend']);
+    });
+
+    test("read", async () => {
+      const csv = new CSV({ path: "test/parser/multi-line.csv" });
+
+      expect(csv.getHeaders()).toEqual(["id", "name", "address"]);
+      expect(await csv.read()).toEqual([
+        { id: 1, name: "Doe, John", address: "Main St 1\nSpringfield" },
+        { id: 2, name: 'Jane "JJ" Roe', address: "" },
+        { id: 3, name: "Max", address: "a\n\nb" }
+      ]);
+    });
+  });
+
+  afterAll(() => {
+    unlinkSync("test/parser/multi-line.csv");
+    unlinkSync("test/parser/round-trip-minimal.csv");
+    unlinkSync("test/parser/round-trip-non-numeric.csv");
+    unlinkSync("test/parser/round-trip-dialect.csv");
+  });
+});
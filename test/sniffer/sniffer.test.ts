@@ -0,0 +1,131 @@
+import { describe, test, expect, afterAll } from "vitest";
+import { writeFileSync, readFileSync, unlinkSync } from "fs";
+import { CSV, sniff } from "../../src";
+
+describe("sniffer", () => {
+  test("delimiter", () => {
+    expect(sniff("a;b;c\n1;2,5;3\n4;5;6\n").delimiter).toBe(";");
+    expect(sniff("a\tb\n1\t2\n3\t4\n").delimiter).toBe("\t");
+    expect(sniff("a|b\n1|2\n").delimiter).toBe("|");
+    expect(sniff('a,b\n"x;y;z",1\n"w;v",2\n').delimiter).toBe(",");
+  });
+
+  test("quote and line ending", () => {
+    let dialect = sniff("name;city\r\n'Doe; J';Rome\r\n'Roe';Paris\r\n");
+
+    expect(dialect.quote).toBe("'");
+    expect(dialect.delimiter).toBe(";");
+    expect(dialect.lineEnding).toBe("\r\n");
+    expect(sniff("a,b\n1,2\n").quote).toBe('"');
+  });
+
+  test("encoding and byte order mark", () => {
+    let text = "name,city\nJosé,Zürich\n";
+
+    expect(sniff(Buffer.from("﻿" + text))).toMatchObject({
+      encoding: "utf-8",
+      bom: true,
+      delimiter: ","
+    });
+
+    expect(sniff(Buffer.from(text, "latin1"))).toMatchObject({
+      encoding: "latin1",
+      bom: false
+    });
+
+    expect(
+      sniff(
+        Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from(text, "utf16le")])
+      )
+    ).toMatchObject({ encoding: "utf-16le", bom: true, delimiter: "," });
+
+    expect(sniff(Buffer.from(text, "utf16le"))).toMatchObject({
+      encoding: "utf-16le",
+      bom: false
+    });
+
+    // Only the beginning of a file may end in the middle of a character.
+    let cut = Buffer.from("name,city\nJosé", "utf-8").subarray(0, -1);
+    let latin1 = Buffer.from("name,city\nJosé", "latin1");
+
+    expect(sniff(cut).encoding).toBe("utf-8");
+    expect(sniff(cut, { complete: true }).encoding).toBe("latin1");
+    expect(sniff(latin1, { complete: true }).encoding).toBe("latin1");
+    expect(sniff(Buffer.from("a,é€", "utf-8").subarray(0, -2)).encoding).toBe(
+      "utf-8"
+    );
+    expect(sniff(Buffer.from("a,b\xe9\xe9", "latin1")).encoding).toBe("latin1");
+  });
+
+  test("header", () => {
+    expect(sniff("id,name\n1,John\n2,Jane\n").hasHeader).toBe(true);
+    expect(sniff("1,John\n2,Jane\n3,Jim\n").hasHeader).toBe(false);
+    expect(sniff("name,city\nJo,Rome\nJane,Paris\n").hasHeader).toBe(true);
+    expect(sniff("ab,12\ncd,34\nef,56\n").hasHeader).toBe(false);
+
+    // Values as long as the header are no evidence of data.
+    expect(sniff("name,city\nJohn,Paris\nJane,Rome\n").hasHeader).toBe(true);
+    expect(sniff("name\nJohn\nJane\n").hasHeader).toBe(true);
+    expect(sniff("cc\nUS\nFR\n").hasHeader).toBe(true);
+    expect(sniff("John,Paris\nJane,Rome\nJack,Oslo\n").hasHeader).toBe(true);
+  });
+
+  describe("delimiter: auto", () => {
+    const path = "test/sniffer/auto.csv";
+
+    afterAll(() => {
+      unlinkSync(path);
+    });
+
+    test("detects the dialect of an existing file", async () => {
+      writeFileSync(path, "id;name\r\n1;'Doe; J'\r\n2;Roe");
+
+      let csv = new CSV({ path, delimiter: "auto" });
+
+      expect(csv.getHeaders()).toEqual(["id", "name"]);
+      expect(csv.getDialect()).toMatchObject({
+        delimiter: ";",
+        quote: "'",
+        lineEnding: "\r\n"
+      });
+
+      await csv.write({ id: 3, name: "Moe" });
+
+      expect(readFileSync(path, "utf-8")).toBe(
+        "id;name\r\n1;'Doe; J'\r\n2;Roe\r\n3;Moe"
+      );
+      expect(await csv.read()).toEqual([
+        { id: 1, name: "Doe; J" },
+        { id: 2, name: "Roe" },
+        { id: 3, name: "Moe" }
+      ]);
+    });
+
+    test("detects Latin-1 in a file that ends with an accent", async () => {
+      writeFileSync(path, Buffer.from("id;name\n1;José", "latin1"));
+
+      let csv = new CSV({ path, delimiter: "auto" });
+
+      expect(csv.getDialect().encoding).toBe("latin1");
+      expect(await csv.read()).toEqual([{ id: 1, name: "José" }]);
+    });
+
+    test("defaults for a new file", () => {
+      let csv = new CSV({
+        path,
+        headers: ["a", "b"],
+        delimiter: "auto",
+        deletePrevious: true
+      });
+
+      expect(csv.getDialect()).toEqual({
+        delimiter: ",",
+        quote: '"',
+        lineEnding: "\n",
+        encoding: "utf-8",
+        bom: false,
+        hasHeader: true
+      });
+    });
+  });
+});
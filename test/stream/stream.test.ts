@@ -0,0 +1,74 @@
+import { describe, test, expect } from "vitest";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import { createParseStream, createStringifyStream } from "../../src";
+
+const collect = async <T>(stream: AsyncIterable<T>) => {
+  let items: T[] = [];
+  for await (let item of stream) items.push(item);
+  return items;
+};
+
+describe("streams", () => {
+  test("parse stream", async () => {
+    let text = 'id,name,city\n1,"Doe, ""J""",Zürich\r\n2,"multi\nline",€uro\n';
+    let buffer = Buffer.from(text);
+
+    // Split the input in chunks of 1 to 5 bytes, cutting records and multi-byte characters.
+    let chunks: Buffer[] = [];
+    for (let i = 0, n = 1; i < buffer.length; i += n, n = (n % 5) + 1) {
+      chunks.push(buffer.subarray(i, i + n));
+    }
+
+    let entries = await collect(
+      Readable.from(chunks).pipe(createParseStream())
+    );
+
+    expect(entries).toEqual([
+      { id: 1, name: 'Doe, "J"', city: "Zürich" },
+      { id: 2, name: "multi\nline", city: "€uro" }
+    ]);
+  });
+
+  test("parse stream with headers", async () => {
+    let entries = await collect(
+      Readable.from(["a;b\n1;x"]).pipe(
+        createParseStream({ delimiter: ";", headers: ["n:id", "s:name?"] })
+      )
+    );
+
+    expect(entries).toEqual([{ id: 1, name: "x" }]);
+  });
+
+  test("stringify stream", async () => {
+    let output = "";
+
+    await pipeline(
+      Readable.from([
+        { id: 1, name: "Doe, J", active: true },
+        { id: 2, name: "21", active: null }
+      ]),
+      createStringifyStream({ headers: ["n:id", "s:name", "b:active?"] }),
+      async function (text: AsyncIterable<string>) {
+        for await (let chunk of text) output += chunk;
+      }
+    );
+
+    expect(output).toBe('id,name,active\n1,"Doe, J",true\n2,21,null');
+  });
+
+  test("round-trip", async () => {
+    let entries = [
+      { a: "x\ny", b: 1 },
+      { a: 'q"uote', b: 2 }
+    ];
+
+    let parsed = await collect(
+      Readable.from(entries)
+        .pipe(createStringifyStream())
+        .pipe(createParseStream())
+    );
+
+    expect(parsed).toEqual(entries);
+  });
+});
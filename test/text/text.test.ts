@@ -0,0 +1,120 @@
+import { describe, test, expect, expectTypeOf } from "vitest";
+import { parse, stringify, ValidationError, Value } from "../../src";
+
+describe("text", () => {
+  test("parse", () => {
+    expect(parse('id,name\n1,"Doe, ""J"""\r\n2,"multi\nline"\n')).toEqual([
+      { id: 1, name: 'Doe, "J"' },
+      { id: 2, name: "multi\nline" }
+    ]);
+
+    let users = parse("a;b;c\n1;John;\n2;Jane;31", {
+      delimiter: "auto",
+      headers: ["n:id", "s:name", "n:age?"]
+    });
+
+    expectTypeOf(users[0].id).toEqualTypeOf<number>();
+    expectTypeOf(users[0].age).toEqualTypeOf<number | undefined>();
+    expect(users).toEqual([
+      { id: 1, name: "John", age: null },
+      { id: 2, name: "Jane", age: 31 }
+    ]);
+
+    let bytes = Buffer.from("﻿name\nZürich", "utf-8");
+    expect(parse(bytes)).toEqual([{ name: "Zürich" }]);
+    expect(parse("")).toEqual([]);
+  });
+
+  test("parse errors", () => {
+    let text = "id,born\n1,2000-01-01\n2,never";
+    let schema = {
+      id: { type: "number" },
+      born: { type: "date" }
+    } as const;
+
+    expect(() => parse(text, { schema })).toThrow(ValidationError);
+    expect(parse(text, { schema, onError: "skip" })).toEqual([
+      { id: 1, born: new Date("2000-01-01") }
+    ]);
+    expect(() =>
+      parse(text, { headers: ["n:id"], schema: { id: { type: "number" } } })
+    ).toThrow(/either headers or a schema/);
+  });
+
+  test("stringify", () => {
+    expect(
+      stringify(
+        [
+          { id: 1, name: "Doe, J", active: true },
+          { id: 2, name: "21" }
+        ],
+        { headers: ["n:id", "s:name", "b:active?"] }
+      )
+    ).toBe('id,name,active\n1,"Doe, J",true\n2,21,null');
+
+    expect(
+      stringify([{ a: 1 }, { b: "x;y" }], {
+        delimiter: ";",
+        lineEnding: "\r\n"
+      })
+    ).toBe('a;b\r\n1;null\r\nnull;"x;y"');
+    expect(stringify([], { headers: ["a", "b"] })).toBe("a,b");
+
+    expect(() =>
+      stringify([{ id: "1" } as any], { headers: ["n:id"] })
+    ).toThrow(ValidationError);
+  });
+
+  test("headers", () => {
+    let text = "First Name,Prix (€),id,id\nJohn,3.5,1,2";
+
+    expect(parse(text, { mapHeaders: { "First Name": "firstName" } })).toEqual([
+      { firstName: "John", "Prix (€)": 3.5, id: 1, id_2: 2 }
+    ]);
+
+    let rows = parse("1,John\n2,Jane", { hasHeader: false });
+
+    expectTypeOf(rows).toEqualTypeOf<Value[][]>();
+    expect(rows).toEqual([
+      [1, "John"],
+      [2, "Jane"]
+    ]);
+    expect(
+      parse("1,John", { hasHeader: false, headers: ["n:id", "s:name"] })
+    ).toEqual([{ id: 1, name: "John" }]);
+
+    // With the auto delimiter, the header row is sniffed like in a CSV file.
+    let sniffed = { delimiter: "auto" } as const;
+
+    expect(parse("name,code\nJohn,ABCD\nJane,EFGH", sniffed)).toEqual([
+      { name: "John", code: "ABCD" },
+      { name: "Jane", code: "EFGH" }
+    ]);
+    expect(parse("1,John\n2,Jane\n3,Jack", sniffed)).toEqual([
+      { column1: 1, column2: "John" },
+      { column1: 2, column2: "Jane" },
+      { column1: 3, column2: "Jack" }
+    ]);
+
+    expect(stringify([{ "First Name": "John", "a,b": 1 }])).toBe(
+      'First Name,"a,b"\nJohn,1'
+    );
+    expect(stringify([{ id: 1 }, { id: 2 }], { hasHeader: false })).toBe(
+      "1\n2"
+    );
+  });
+
+  test("round-trip", () => {
+    let entries = [
+      { id: 1, name: "null", born: new Date(0), tags: ["a", "b"] },
+      { id: 2, name: " spaced ", born: new Date(1e12), tags: null }
+    ];
+    let text = stringify(entries, {
+      headers: ["n:id", "s:name", "d:born", "j:tags?"]
+    });
+
+    expect(
+      parse(text, { headers: ["n:id", "s:name", "d:born", "j:tags?"] })
+    ).toEqual(entries);
+  });
+});
@@ -1,8 +1,16 @@
-import { describe, test, expect, afterAll } from "vitest";
-import { readLines, readLinesSync } from "../../src/lib";
+import { describe, test, expect, afterAll, vi } from "vitest";
+import { readLines, readLinesSync, writeFileAtomic } from "../../src/lib";
 import { CSV } from "../../src";
+import { acquireLock } from "../../src/lib/lock";
 import { randomUUID } from "crypto";
-import { unlinkSync } from "fs";
+import {
+  promises,
+  readFileSync,
+  readdirSync,
+  unlinkSync,
+  utimesSync,
+  writeFileSync
+} from "fs";
 
 describe("util functions", () => {
   test(
@@ -55,8 +63,89 @@ describe("util functions", () => {
     });
   });
 
+  test("read-lines-sync encodings", () => {
+    // Lines of 3-byte and 4-byte characters, so that they are cut between reads.
+    let lines = Array.from({ length: 20000 }, (_, i) => `${i},€uro,😀`);
+    let text = "\uFEFF" + lines.join("\n");
+    let read: string[] = [];
+
+    writeFileSync("test/utils/encodings.csv", text);
+    readLinesSync("test/utils/encodings.csv", line => read.push(line));
+    expect(read).toEqual(lines);
+
+    read = [];
+    writeFileSync("test/utils/encodings.csv", Buffer.from(text, "utf16le"));
+    readLinesSync("test/utils/encodings.csv", line => read.push(line), {
+      encoding: "utf-16le",
+      limit: 2
+    });
+    expect(read).toEqual(lines.slice(0, 2));
+  });
+
+  test("write-file-atomic", async () => {
+    const path = "test/utils/atomic.csv";
+
+    writeFileSync(path, "id\n1");
+
+    async function* failing() {
+      yield "id";
+      yield "\n2";
+      throw new Error("crash");
+    }
+
+    await expect(writeFileAtomic(path, failing())).rejects.toThrow("crash");
+    expect(readFileSync(path, "utf-8")).toBe("id\n1");
+    expect(readdirSync("test/utils").filter(f => f.endsWith(".tmp"))).toEqual(
+      []
+    );
+
+    await writeFileAtomic(path, ["id", Buffer.from("\n3")]);
+    expect(readFileSync(path, "utf-8")).toBe("id\n3");
+  });
+
+  test("lock takeover", async () => {
+    const path = "test/utils/takeover.csv";
+    let past = new Date(Date.now() - 60000);
+    let holders = 0;
+    let overlaps = 0;
+
+    writeFileSync(path + ".lock", `1@${randomUUID()}:token`);
+    utimesSync(path + ".lock", past, past);
+
+    // Both contenders find the abandoned lock, the second one acts on it after the first took it over.
+    let readFile = promises.readFile;
+    let reads = 0;
+
+    vi.spyOn(promises, "readFile").mockImplementation(async (path, opts) => {
+      let content = await readFile(path, opts as BufferEncoding);
+      if (++reads === 2) await new Promise(res => setTimeout(res, 100));
+      return content;
+    });
+
+    let hold = async () => {
+      let release = await acquireLock(path, { stale: 1000 });
+
+      holders++;
+      if (holders > 1) overlaps++;
+      await new Promise(res => setTimeout(res, 200));
+      holders--;
+
+      await release();
+    };
+
+    await Promise.all([hold(), hold()]);
+    vi.restoreAllMocks();
+
+    expect(overlaps).toBe(0);
+    expect(readdirSync("test/utils").filter(f => f.includes(".lock"))).toEqual(
+      []
+    );
+  });
+
   afterAll(() => {
     unlinkSync("test/utils/read-lines.csv");
     unlinkSync("test/utils/read-lines-sync.csv");
+    unlinkSync("test/utils/encodings.csv");
+    unlinkSync("test/utils/atomic.csv");
   });
 });